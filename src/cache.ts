@@ -0,0 +1,117 @@
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { createHash } from 'crypto';
+import type { ActorOutput, CacheOptions, ScrapeOptions } from './types.js';
+import type { CapturedImage } from './ffmpeg.js';
+import { getRecordUrl } from './utils.js';
+
+/** A cached dataset item and when it was produced */
+interface CachedOutput {
+    cachedAt: string;
+    output: ActorOutput;
+}
+
+/** When each cached frame of a video was saved (ISO time), by record key */
+type FrameIndex = Record<string, string>;
+
+/** Key of the record that holds a video's `FrameIndex` */
+function getFrameIndexKey(videoId: string): string {
+    return `frame-index-${videoId}`;
+}
+
+/** Age of a cache entry in hours */
+function getAgeHours(cachedAt: string): number {
+    return (Date.now() - new Date(cachedAt).getTime()) / 3_600_000;
+}
+
+/** JSON with object keys sorted, so equal options always serialise the same. */
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, v: unknown) => (
+        v && typeof v === 'object' && !Array.isArray(v)
+            ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+            : v
+    ));
+}
+
+/**
+ * Hash of the options that shape the output (including the clip range); the
+ * cache settings are not part of it.
+ */
+export function getOptionsHash(options: ScrapeOptions): string {
+    const { cache: _cache, ...outputOptions } = options;
+    return createHash('sha1').update(stableStringify(outputOptions)).digest('hex').slice(0, 16);
+}
+
+/** Cache key for a video scraped with a set of options. */
+export function getCacheKey(videoId: string, options: ScrapeOptions): string {
+    return `output-${videoId}-${getOptionsHash(options)}`;
+}
+
+/**
+ * Read a cached dataset item for the video and options. Returns null on a
+ * miss, when the entry is older than the TTL, or when a refresh is forced.
+ */
+export async function readCachedOutput(cache: CacheOptions, videoId: string, options: ScrapeOptions): Promise<ActorOutput | null> {
+    if (cache.forceRefresh) return null;
+
+    const store = await Actor.openKeyValueStore(cache.storeName);
+    const entry = await store.getValue<CachedOutput>(getCacheKey(videoId, options));
+    // Entries cached before items had per-stage results are scraped again
+    if (!entry?.output.stages) return null;
+
+    const ageHours = getAgeHours(entry.cachedAt);
+    if (!(ageHours <= cache.ttlHours)) {
+        log.info(`Cached result for ${videoId} is ${Math.round(ageHours)}h old (TTL ${cache.ttlHours}h), scraping again`);
+        return null;
+    }
+    return { ...entry.output, cachedAt: entry.cachedAt };
+}
+
+/** Store a dataset item in the cache. */
+export async function writeCachedOutput(
+    cache: CacheOptions,
+    videoId: string,
+    options: ScrapeOptions,
+    output: ActorOutput,
+): Promise<void> {
+    const store = await Actor.openKeyValueStore(cache.storeName);
+    const entry: CachedOutput = { cachedAt: new Date().toISOString(), output };
+    await store.setValue(getCacheKey(videoId, options), entry);
+}
+
+/**
+ * Load previously captured frames from the cache store by record key
+ * (`frame-${videoId}-${seconds}`), so they are not captured again. Frames
+ * only exist there when an earlier run had the cache enabled. Only ffmpeg
+ * frames use these keys; storyboard crops are saved as `sb-frame-...`.
+ * Frames older than the TTL, or missing from the video's frame index, are
+ * captured again.
+ */
+export async function loadCachedFrames(cache: CacheOptions, videoId: string, keys: string[]): Promise<Map<string, CapturedImage>> {
+    const frames = new Map<string, CapturedImage>();
+    if (cache.forceRefresh) return frames;
+
+    const store = await Actor.openKeyValueStore(cache.storeName);
+    const index = await store.getValue<FrameIndex>(getFrameIndexKey(videoId)) ?? {};
+    for (const key of keys) {
+        const cachedAt = index[key];
+        if (!cachedAt || !(getAgeHours(cachedAt) <= cache.ttlHours)) continue;
+        const image = await store.getValue<Buffer>(key);
+        if (!Buffer.isBuffer(image)) continue;
+        const url = getRecordUrl(key, store.id);
+        if (url) frames.set(key, { url, image });
+    }
+    if (frames.size > 0) log.info(`Reusing ${frames.size} cached frames`);
+    return frames;
+}
+
+/** Record that frames were just saved to the cache store, for the TTL check in `loadCachedFrames`. */
+export async function markCachedFrames(cache: CacheOptions, videoId: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const store = await Actor.openKeyValueStore(cache.storeName);
+    const indexKey = getFrameIndexKey(videoId);
+    const index = await store.getValue<FrameIndex>(indexKey) ?? {};
+    const now = new Date().toISOString();
+    for (const key of keys) index[key] = now;
+    await store.setValue(indexKey, index);
+}
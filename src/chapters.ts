@@ -0,0 +1,219 @@
+import type { VideoChapter, ChapterSource, TimestampReference } from './types.js';
+import { formatTimestamp } from './transcript.js';
+import { findAllByKey, readText } from './utils.js';
+
+/** `h:mm:ss` / `m:ss` timestamp; groups are hours (optional), minutes, seconds */
+const TIMESTAMP_PATTERN = '(?:(\\d{1,3}):)?(\\d{1,2}):(\\d{2})';
+
+/** Regex to find timestamp-based chapters in descriptions like "0:00 Intro" */
+const CHAPTER_REGEX = new RegExp(`^\\s*${TIMESTAMP_PATTERN}\\s*[-\\u2013\\u2014]?\\s+(.+)$`, 'gm');
+
+/** Regex to find timestamps anywhere in free text, e.g. comments ("at 12:34 he says..."), but not clock times ("10:30 am") */
+const INLINE_TIMESTAMP_REGEX = new RegExp(`(?<![\\d:])${TIMESTAMP_PATTERN}(?![\\d:]|\\s?[AaPp]\\.?[Mm]\\b)`, 'g');
+
+/** YouTube's chapter rules: at least this many chapters... */
+const MIN_CHAPTERS = 3;
+
+/** ...each at least this long (seconds) */
+const MIN_CHAPTER_SECONDS = 10;
+
+/** Engagement panel IDs that list chapters, and the source they represent */
+const CHAPTER_PANELS: Record<string, ChapterSource> = {
+    'engagement-panel-macro-markers-description-chapters': 'creator',
+    'engagement-panel-macro-markers-auto-chapters': 'auto',
+};
+
+/** Player bar marker map keys that hold chapters */
+const MARKER_KEYS: Record<string, ChapterSource> = {
+    DESCRIPTION_CHAPTERS: 'creator',
+    AUTO_CHAPTERS: 'auto',
+};
+
+/** A chapter start before end times are known */
+interface ChapterStart {
+    title: string;
+    startSeconds: number;
+}
+
+/** Chapter starts read from one native source in ytInitialData */
+interface ChapterList {
+    source: ChapterSource;
+    starts: ChapterStart[];
+}
+
+/** Total seconds from a timestamp match's hours/minutes/seconds groups (1-3). */
+function matchToSeconds(match: RegExpExecArray): number {
+    const hours = match[1] ? parseInt(match[1], 10) : 0;
+    const minutes = parseInt(match[2], 10);
+    const seconds = parseInt(match[3], 10);
+    return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Turn ordered chapter starts into chapters with end times. Each chapter
+ * ends where the next one starts; the last one ends with the video.
+ */
+function withEndTimes(starts: ChapterStart[], durationSeconds: number, source: ChapterSource): VideoChapter[] {
+    return starts.map((ch, i) => {
+        const endSeconds = i + 1 < starts.length ? starts[i + 1].startSeconds : Math.max(durationSeconds, ch.startSeconds);
+        return {
+            title: ch.title,
+            startSeconds: ch.startSeconds,
+            startFormatted: formatTimestamp(ch.startSeconds),
+            endSeconds,
+            endFormatted: formatTimestamp(endSeconds),
+            source,
+        };
+    });
+}
+
+/**
+ * Check chapters against YouTube's rules: the first starts at 0:00, there
+ * are at least three, starts are ascending, and each lasts at least 10s.
+ * The last chapter's length is only checked when the duration is known.
+ */
+function isValidChapterList(starts: ChapterStart[], durationSeconds: number): boolean {
+    if (starts.length < MIN_CHAPTERS || starts[0].startSeconds !== 0) return false;
+
+    for (let i = 0; i < starts.length; i++) {
+        const end = i + 1 < starts.length ? starts[i + 1].startSeconds : durationSeconds;
+        if (i + 1 === starts.length && durationSeconds <= 0) break;
+        if (end - starts[i].startSeconds < MIN_CHAPTER_SECONDS) return false;
+    }
+    return true;
+}
+
+/**
+ * Parse chapter markers from a video description.
+ * YouTube chapters are lines like "0:00 Introduction" or "1:23:45 Advanced Topics".
+ *
+ * Like YouTube, only a run of ascending timestamps that starts at 0:00 counts,
+ * so timestamp lists elsewhere in the description (e.g. pasted comments) are
+ * ignored. Returns an empty list when the run breaks YouTube's chapter rules.
+ */
+export function parseChapters(description: string, durationSeconds = 0): VideoChapter[] {
+    const starts: ChapterStart[] = [];
+    let match: RegExpExecArray | null;
+
+    // Reset regex
+    CHAPTER_REGEX.lastIndex = 0;
+
+    while ((match = CHAPTER_REGEX.exec(description)) !== null) {
+        const totalSeconds = matchToSeconds(match);
+
+        if (totalSeconds === 0 && starts.length === 0) {
+            starts.push({ title: match[4].trim(), startSeconds: 0 });
+        } else if (starts.length > 0) {
+            if (totalSeconds <= starts[starts.length - 1].startSeconds) break; // run ended
+            starts.push({ title: match[4].trim(), startSeconds: totalSeconds });
+        }
+    }
+
+    if (!isValidChapterList(starts, durationSeconds)) return [];
+    return withEndTimes(starts, durationSeconds, 'description');
+}
+
+/**
+ * Find `m:ss` / `h:mm:ss` timestamp references in free text (comments),
+ * using the same timestamp parsing as chapter lines. Each reference keeps
+ * the rest of its line as context. Seconds >= 60 are not timestamps.
+ */
+export function extractTimestampReferences(text: string): TimestampReference[] {
+    const refs: TimestampReference[] = [];
+    let match: RegExpExecArray | null;
+    const regex = new RegExp(INLINE_TIMESTAMP_REGEX.source, 'g');
+
+    while ((match = regex.exec(text)) !== null) {
+        if (parseInt(match[3], 10) >= 60) continue;
+        const seconds = matchToSeconds(match);
+        const lineStart = text.lastIndexOf('\n', match.index) + 1;
+        const lineEnd = text.indexOf('\n', match.index);
+        refs.push({
+            seconds,
+            formatted: formatTimestamp(seconds),
+            context: text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim(),
+        });
+    }
+    return refs;
+}
+
+/**
+ * Read chapters from the player bar's `markersMap` in ytInitialData.
+ */
+function parseMarkerChapters(initialData: unknown): ChapterList[] {
+    const lists: ChapterList[] = [];
+
+    for (const markersMap of findAllByKey(initialData, 'markersMap')) {
+        if (!Array.isArray(markersMap)) continue;
+        for (const entry of markersMap as Array<{ key?: string; value?: unknown }>) {
+            const source = entry.key ? MARKER_KEYS[entry.key] : undefined;
+            if (!source) continue;
+
+            const starts = findAllByKey(entry.value, 'chapterRenderer').map((r) => {
+                const renderer = r as { title?: unknown; timeRangeStartMillis?: number };
+                return {
+                    title: readText(renderer.title),
+                    startSeconds: Math.round((renderer.timeRangeStartMillis ?? 0) / 1000),
+                };
+            });
+            if (starts.length > 0) lists.push({ source, starts });
+        }
+    }
+    return lists;
+}
+
+/**
+ * Read chapters from the "Chapters" engagement panels in ytInitialData.
+ */
+function parsePanelChapters(initialData: unknown): ChapterList[] {
+    const lists: ChapterList[] = [];
+
+    for (const panel of findAllByKey(initialData, 'engagementPanelSectionListRenderer')) {
+        const { panelIdentifier, content } = panel as { panelIdentifier?: string; content?: unknown };
+        const source = panelIdentifier ? CHAPTER_PANELS[panelIdentifier] : undefined;
+        if (!source) continue;
+
+        const starts = findAllByKey(content, 'macroMarkersListItemRenderer').map((r) => {
+            const renderer = r as {
+                title?: unknown;
+                onTap?: { watchEndpoint?: { startTimeSeconds?: number } };
+            };
+            return {
+                title: readText(renderer.title),
+                startSeconds: renderer.onTap?.watchEndpoint?.startTimeSeconds ?? 0,
+            };
+        });
+        if (starts.length > 0) lists.push({ source, starts });
+    }
+    return lists;
+}
+
+/**
+ * Extract chapters for a video, in order of preference:
+ *  1. Creator chapters from the player bar markers or the chapters panel
+ *  2. YouTube's auto-generated chapters
+ *  3. Timestamp lines in the description (fallback)
+ *
+ * Native lists are sorted, de-duplicated and validated against the same
+ * rules as description chapters.
+ */
+export function extractChapters(
+    initialData: Record<string, unknown> | null,
+    description: string,
+    durationSeconds: number,
+): VideoChapter[] {
+    const native = initialData ? [...parseMarkerChapters(initialData), ...parsePanelChapters(initialData)] : [];
+
+    for (const source of ['creator', 'auto'] as const) {
+        for (const list of native.filter((l) => l.source === source)) {
+            const starts = list.starts
+                .filter((ch, i, all) => all.findIndex((o) => o.startSeconds === ch.startSeconds) === i)
+                .sort((a, b) => a.startSeconds - b.startSeconds);
+            if (isValidChapterList(starts, durationSeconds)) {
+                return withEndTimes(starts, durationSeconds, source);
+            }
+        }
+    }
+
+    return parseChapters(description, durationSeconds);
+}
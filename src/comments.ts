@@ -0,0 +1,249 @@
+import { log } from 'crawlee';
+import type { VideoComment, CommentSort } from './types.js';
+import type { WatchPage } from './watchPage.js';
+import { extractInnertubeConfig, innertubeRequest, type InnertubeConfig } from './innertube.js';
+import { extractTimestampReferences } from './chapters.js';
+import { findAllByKey, readText, parseCompactNumber } from './utils.js';
+
+/** Comment threads YouTube returns per `next` page (about 20) */
+const COMMENTS_PER_PAGE = 20;
+
+/**
+ * Safety cap on `next` pages fetched for the top-level comment list, as a
+ * multiple of the pages `maxComments` should need (pages are sometimes short)
+ */
+const COMMENT_PAGE_SLACK = 2;
+
+/** Safety cap on "Show more replies" pages fetched per thread */
+const MAX_REPLY_PAGES = 20;
+
+/** One page of comment items from a `next` continuation response */
+interface CommentPage {
+    comments: Array<{ comment: VideoComment; repliesToken: string | null }>;
+    continuation: string | null;
+}
+
+/** `commentEntityPayload` from `frameworkUpdates` (current comment layout) */
+interface CommentEntityPayload {
+    key?: string;
+    properties?: {
+        commentId?: string;
+        content?: { content?: string };
+        publishedTime?: string;
+    };
+    author?: {
+        displayName?: string;
+        channelId?: string;
+        isCreator?: boolean;
+    };
+    toolbar?: {
+        likeCountNotliked?: string;
+        replyCount?: string;
+    };
+}
+
+/** `commentRenderer` (legacy comment layout) */
+interface CommentRenderer {
+    commentId?: string;
+    contentText?: unknown;
+    authorText?: unknown;
+    authorEndpoint?: { browseEndpoint?: { browseId?: string } };
+    authorIsChannelOwner?: boolean;
+    publishedTimeText?: unknown;
+    voteCount?: unknown;
+    replyCount?: number;
+}
+
+/** First `continuationCommand` token inside a node, if any. */
+function findToken(node: unknown): string | null {
+    for (const command of findAllByKey(node, 'continuationCommand')) {
+        const token = (command as { token?: string }).token;
+        if (token) return token;
+    }
+    return null;
+}
+
+/** Build a comment with its parsed timestamp references. */
+function buildComment(fields: Omit<VideoComment, 'timestamps'>): VideoComment {
+    return { ...fields, timestamps: extractTimestampReferences(fields.text) };
+}
+
+/**
+ * Resolve a comment item (thread or bare reply) in either the current
+ * `commentViewModel` + entity payload layout or the legacy `commentRenderer`.
+ */
+function parseCommentNode(
+    node: unknown,
+    payloads: Map<string, CommentEntityPayload>,
+    parentId: string | undefined,
+): VideoComment | null {
+    const viewModel = findAllByKey(node, 'commentViewModel')
+        .find((v) => (v as { commentKey?: string }).commentKey) as { commentKey?: string } | undefined;
+    const payload = viewModel?.commentKey ? payloads.get(viewModel.commentKey) : undefined;
+
+    if (payload) {
+        return buildComment({
+            commentId: payload.properties?.commentId ?? '',
+            text: payload.properties?.content?.content ?? '',
+            authorName: payload.author?.displayName ?? '',
+            authorChannelId: payload.author?.channelId ?? '',
+            isCreator: payload.author?.isCreator ?? false,
+            likeCount: parseCompactNumber(payload.toolbar?.likeCountNotliked) ?? 0,
+            publishedTime: payload.properties?.publishedTime ?? '',
+            replyCount: parseCompactNumber(payload.toolbar?.replyCount) ?? 0,
+            parentId,
+        });
+    }
+
+    const renderer = findAllByKey(node, 'commentRenderer')[0] as CommentRenderer | undefined;
+    if (!renderer) return null;
+
+    return buildComment({
+        commentId: renderer.commentId ?? '',
+        text: readText(renderer.contentText),
+        authorName: readText(renderer.authorText),
+        authorChannelId: renderer.authorEndpoint?.browseEndpoint?.browseId ?? '',
+        isCreator: renderer.authorIsChannelOwner ?? false,
+        likeCount: parseCompactNumber(readText(renderer.voteCount)) ?? 0,
+        publishedTime: readText(renderer.publishedTimeText),
+        replyCount: renderer.replyCount ?? 0,
+        parentId,
+    });
+}
+
+/**
+ * Parse the comment items and next-page token out of a `next` response.
+ * Reply tokens are read from inside each thread so they are not mistaken
+ * for the list's own continuation.
+ */
+function parseCommentPage(data: unknown, parentId?: string): CommentPage {
+    const payloads = new Map<string, CommentEntityPayload>();
+    for (const payload of findAllByKey(data, 'commentEntityPayload') as CommentEntityPayload[]) {
+        if (payload.key) payloads.set(payload.key, payload);
+    }
+
+    const page: CommentPage = { comments: [], continuation: null };
+    for (const items of findAllByKey(data, 'continuationItems')) {
+        if (!Array.isArray(items)) continue;
+        for (const item of items as Array<Record<string, unknown>>) {
+            if (item.continuationItemRenderer) {
+                page.continuation = findToken(item.continuationItemRenderer);
+                continue;
+            }
+            const thread = item.commentThreadRenderer as { replies?: unknown } | undefined;
+            const comment = parseCommentNode(thread ?? item, payloads, parentId);
+            if (!comment) continue;
+            page.comments.push({ comment, repliesToken: thread?.replies ? findToken(thread.replies) : null });
+        }
+    }
+    return page;
+}
+
+/**
+ * Find the token that loads the comments section from the watch page's
+ * ytInitialData (the comment item section, or the comments engagement panel).
+ */
+function findCommentsToken(initialData: unknown): string | null {
+    for (const section of findAllByKey(initialData, 'itemSectionRenderer')) {
+        const { sectionIdentifier, contents } = section as { sectionIdentifier?: string; contents?: unknown };
+        if (sectionIdentifier === 'comment-item-section') {
+            const token = findToken(contents);
+            if (token) return token;
+        }
+    }
+    for (const panel of findAllByKey(initialData, 'engagementPanelSectionListRenderer')) {
+        const { panelIdentifier, content } = panel as { panelIdentifier?: string; content?: unknown };
+        if (panelIdentifier === 'engagement-panel-comments-section') {
+            const token = findToken(content);
+            if (token) return token;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the reload token for a sort order in the comments header's sort menu
+ * (the menu lists "Top comments" first, then "Newest first").
+ */
+function findSortToken(data: unknown, sort: CommentSort): string | null {
+    const menu = findAllByKey(data, 'sortFilterSubMenuRenderer')[0] as { subMenuItems?: unknown[] } | undefined;
+    const item = menu?.subMenuItems?.[sort === 'newest' ? 1 : 0];
+    return item ? findToken(item) : null;
+}
+
+/** Fetch all replies of one thread by following its reply continuations. */
+async function fetchReplies(config: InnertubeConfig, token: string, parentId: string): Promise<VideoComment[]> {
+    const replies: VideoComment[] = [];
+    let next: string | null = token;
+
+    for (let page = 0; next && page < MAX_REPLY_PAGES; page++) {
+        const data = await innertubeRequest<Record<string, unknown>>('next', config, { continuation: next });
+        const parsed = parseCommentPage(data, parentId);
+        replies.push(...parsed.comments.map((c) => c.comment));
+        next = parsed.continuation;
+    }
+    return replies;
+}
+
+/**
+ * Scrape comments for a video by paging through InnerTube `next`
+ * continuations, starting from the token in the watch page's ytInitialData.
+ *
+ * `maxComments` limits top-level comments; with `includeReplies`, each
+ * thread's replies are fetched and nested under it.
+ */
+export async function fetchComments(
+    page: WatchPage,
+    maxComments: number,
+    sort: CommentSort,
+    includeReplies: boolean,
+): Promise<VideoComment[]> {
+    log.info(`Fetching up to ${maxComments} ${sort} comments for video ${page.videoId}`);
+
+    const config = extractInnertubeConfig(page.html);
+    let token = findCommentsToken(page.initialData);
+    if (!config || !token) {
+        log.warning('Comments are disabled or the comments token was not found');
+        return [];
+    }
+
+    const comments: VideoComment[] = [];
+    let sortApplied = sort === 'top';
+    // One extra page for the sort reload
+    const maxPages = Math.ceil(maxComments / COMMENTS_PER_PAGE) * COMMENT_PAGE_SLACK + 1;
+
+    let pageIndex = 0;
+    for (; token && comments.length < maxComments && pageIndex < maxPages; pageIndex++) {
+        const data = await innertubeRequest<Record<string, unknown>>('next', config, { continuation: token });
+
+        // The first response carries the sort menu; reload with "Newest first" if asked
+        if (!sortApplied) {
+            sortApplied = true;
+            const sortToken = findSortToken(data, sort);
+            if (sortToken) {
+                token = sortToken;
+                continue;
+            }
+            log.warning('Comment sort menu not found, using default order');
+        }
+
+        const parsed = parseCommentPage(data);
+        for (const { comment, repliesToken } of parsed.comments) {
+            if (comments.length >= maxComments) break;
+            if (includeReplies && repliesToken) {
+                try {
+                    comment.replies = await fetchReplies(config, repliesToken, comment.commentId);
+                } catch (err) {
+                    log.warning(`Could not fetch replies for comment ${comment.commentId}: ${(err as Error).message}`);
+                }
+            }
+            comments.push(comment);
+        }
+        token = parsed.continuation;
+    }
+
+    if (token && comments.length < maxComments && pageIndex >= maxPages) {
+        log.warning(`Stopped after ${maxPages} comment pages with ${comments.length} of ${maxComments} comments for video ${page.videoId}`);
+    }
+    return comments;
+}
@@ -0,0 +1,198 @@
+import { log } from 'crawlee';
+import type { TranscriptSegment, TranscriptResult, VideoChapter, TranscriptFormat, TranscriptFile } from './types.js';
+import { formatTimestamp } from './transcript.js';
+import { saveRecord } from './utils.js';
+
+/** A block of transcript text that reads as one paragraph */
+export interface TranscriptParagraph {
+    startSeconds: number;
+    text: string;
+    chapterTitle?: string;
+}
+
+/** Silence between segments (seconds) that always starts a new paragraph */
+const PARAGRAPH_GAP_SECONDS = 2;
+
+/** Soft paragraph length; a paragraph breaks at the next sentence end after this */
+const PARAGRAPH_TARGET_CHARS = 600;
+
+/** File extension and content type for each export format */
+const FORMAT_INFO: Record<TranscriptFormat, { extension: string; contentType: string }> = {
+    srt: { extension: 'srt', contentType: 'application/x-subrip; charset=utf-8' },
+    vtt: { extension: 'vtt', contentType: 'text/vtt; charset=utf-8' },
+    markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+    text: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+};
+
+/**
+ * Format seconds as a subtitle cue time: `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT).
+ */
+function formatCueTime(totalSeconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Compute cue start/end times. Auto-generated captions overlap (rolling
+ * display), so each cue is cut off where the next one starts.
+ */
+function toCues(segments: TranscriptSegment[]): Array<{ start: number; end: number; text: string }> {
+    return segments.map((seg, i) => {
+        const next = segments[i + 1];
+        let end = seg.startSeconds + seg.durationSeconds;
+        if (next && next.startSeconds < end) end = next.startSeconds;
+        if (end <= seg.startSeconds) end = seg.startSeconds + 1;
+        return { start: seg.startSeconds, end, text: seg.text };
+    });
+}
+
+/** Render segments as an SRT subtitle file. */
+export function toSrt(segments: TranscriptSegment[]): string {
+    return toCues(segments)
+        .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+        .join('\n');
+}
+
+/** Render segments as a WebVTT subtitle file. */
+export function toVtt(segments: TranscriptSegment[]): string {
+    const cues = toCues(segments)
+        .map((cue) => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${cues}`;
+}
+
+/**
+ * Group segments into readable paragraphs. A new paragraph starts at each
+ * chapter boundary, after a pause of more than `PARAGRAPH_GAP_SECONDS`, or at
+ * the first sentence end once the paragraph is longer than `PARAGRAPH_TARGET_CHARS`.
+ */
+export function buildParagraphs(segments: TranscriptSegment[], chapters: VideoChapter[]): TranscriptParagraph[] {
+    const paragraphs: TranscriptParagraph[] = [];
+    let current: TranscriptParagraph | null = null;
+    let chapterIndex = -1;
+    let prevEnd = 0;
+
+    for (const seg of segments) {
+        const text = seg.text.replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+
+        let newChapter = false;
+        while (chapterIndex + 1 < chapters.length && chapters[chapterIndex + 1].startSeconds <= seg.startSeconds) {
+            chapterIndex++;
+            newChapter = true;
+        }
+
+        const longPause = seg.startSeconds - prevEnd > PARAGRAPH_GAP_SECONDS;
+        const sentenceDone = current !== null
+            && current.text.length >= PARAGRAPH_TARGET_CHARS
+            && /[.!?]["')\]]?$/.test(current.text);
+
+        if (!current || newChapter || longPause || sentenceDone) {
+            current = {
+                startSeconds: seg.startSeconds,
+                text,
+                chapterTitle: chapterIndex >= 0 ? chapters[chapterIndex].title : undefined,
+            };
+            paragraphs.push(current);
+        } else {
+            current.text += ` ${text}`;
+        }
+
+        prevEnd = seg.startSeconds + seg.durationSeconds;
+    }
+
+    return paragraphs;
+}
+
+/** Render the transcript as plain text with blank lines between paragraphs. */
+export function toPlainText(segments: TranscriptSegment[], chapters: VideoChapter[]): string {
+    return buildParagraphs(segments, chapters).map((p) => p.text).join('\n\n') + '\n';
+}
+
+/**
+ * Render the transcript as Markdown: chapter headings and a timestamp link
+ * to the video in front of every paragraph.
+ */
+export function toMarkdown(
+    segments: TranscriptSegment[],
+    chapters: VideoChapter[],
+    videoId: string,
+    title: string,
+): string {
+    const link = (seconds: number) => `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+    const lines: string[] = [`# ${title}`, ''];
+    let lastChapter: string | undefined;
+
+    for (const paragraph of buildParagraphs(segments, chapters)) {
+        if (paragraph.chapterTitle && paragraph.chapterTitle !== lastChapter) {
+            const chapter = chapters.find((c) => c.title === paragraph.chapterTitle)!;
+            lines.push(`## [${chapter.title}](${link(chapter.startSeconds)})`, '');
+            lastChapter = paragraph.chapterTitle;
+        }
+        lines.push(`[${formatTimestamp(paragraph.startSeconds)}](${link(paragraph.startSeconds)}) ${paragraph.text}`, '');
+    }
+
+    return lines.join('\n');
+}
+
+/** Render a transcript in a single export format. */
+function renderFormat(
+    format: TranscriptFormat,
+    segments: TranscriptSegment[],
+    chapters: VideoChapter[],
+    videoId: string,
+    title: string,
+): string {
+    switch (format) {
+        case 'srt':
+            return toSrt(segments);
+        case 'vtt':
+            return toVtt(segments);
+        case 'markdown':
+            return toMarkdown(segments, chapters, videoId, title);
+        case 'text':
+            return toPlainText(segments, chapters);
+    }
+}
+
+/**
+ * Render the requested formats for every transcript and save each one to the
+ * default key-value store as `transcript-<videoId>-<languageCode>.<ext>`.
+ * In the cache store `storeName`, the key also holds the options hash
+ * (`transcript-<videoId>-<hash>-<languageCode>.<ext>`), so runs with other
+ * options or another clip range don't overwrite files cached items link to.
+ */
+export async function saveTranscriptExports(
+    videoId: string,
+    title: string,
+    transcripts: TranscriptResult[],
+    chapters: VideoChapter[],
+    formats: TranscriptFormat[],
+    storeName?: string,
+    optionsHash?: string,
+): Promise<TranscriptFile[]> {
+    const prefix = optionsHash ? `transcript-${videoId}-${optionsHash}` : `transcript-${videoId}`;
+    const files: TranscriptFile[] = [];
+
+    for (const transcript of transcripts) {
+        if (transcript.segments.length === 0) continue;
+
+        for (const format of formats) {
+            const { extension, contentType } = FORMAT_INFO[format];
+            const key = `${prefix}-${transcript.languageCode}.${extension}`;
+            const content = renderFormat(format, transcript.segments, chapters, videoId, title);
+
+            try {
+                const url = await saveRecord(key, content, contentType, storeName);
+                files.push({ format, languageCode: transcript.languageCode, key, url });
+            } catch (err) {
+                log.warning(`Could not save ${format} transcript: ${(err as Error).message}`);
+            }
+        }
+    }
+    return files;
+}
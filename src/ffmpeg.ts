@@ -0,0 +1,185 @@
+import { log } from 'crawlee';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatTimestamp } from './transcript.js';
+import { saveRecord } from './utils.js';
+import { runProcess } from './process.js';
+import { getFfmpegInputArgs, getSessionId, getYtDlpArgs } from './session.js';
+
+/** Timeout for `yt-dlp --get-url` (resolving the stream once per video) */
+const RESOLVE_TIMEOUT_MS = 60000;
+
+/** Timeout for extracting one frame */
+const FRAME_TIMEOUT_MS = 45000;
+
+/** Timeout for the full-video scene detection pass */
+const SCENE_TIMEOUT_MS = 300000;
+
+/** ffmpeg processes run side by side per video */
+const FFMPEG_CONCURRENCY = 4;
+
+/** A frame to extract and the key-value store key to save it under */
+export interface FfmpegFrameRequest {
+    seconds: number;
+    key: string;
+}
+
+/** A frame extracted by ffmpeg and saved to the key-value store */
+export interface CapturedImage {
+    url: string;
+    image: Buffer;
+}
+
+/** A frame where ffmpeg's scene score crossed the threshold */
+export interface SceneScore {
+    seconds: number;
+    /** ffmpeg `scene` score, 0 (identical) to 1 (completely different) */
+    score: number;
+}
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+/** Check once per run whether both ffmpeg and yt-dlp can be started. */
+export function isFfmpegAvailable(): Promise<boolean> {
+    if (!ffmpegAvailable) {
+        ffmpegAvailable = Promise.all([
+            runProcess('ffmpeg', ['-version'], 10000),
+            runProcess('yt-dlp', ['--version'], 10000),
+        ]).then(
+            () => true,
+            (err: Error) => {
+                log.info(`ffmpeg capture disabled (${err.message}), falling back to storyboards`);
+                return false;
+            },
+        );
+    }
+    return ffmpegAvailable;
+}
+
+const streamUrls = new Map<string, Promise<string>>();
+
+/**
+ * Resolve a direct stream URL for the video with yt-dlp. The result is
+ * shared by scene detection and frame capture, so yt-dlp runs once per video.
+ * Stream URLs only work from the IP that resolved them, so they are cached
+ * per proxy session and resolved again after the session rotates.
+ */
+function resolveStreamUrl(videoId: string): Promise<string> {
+    const cacheKey = `${getSessionId() ?? ''}:${videoId}`;
+    let pending = streamUrls.get(cacheKey);
+    if (!pending) {
+        pending = runProcess(
+            'yt-dlp',
+            [...getYtDlpArgs(), '-f', 'best[height<=720]', '--get-url', `https://www.youtube.com/watch?v=${videoId}`],
+            RESOLVE_TIMEOUT_MS,
+        ).then(({ stdout }) => {
+            const streamUrl = stdout.trim().split('\n')[0];
+            if (!streamUrl) throw new Error('yt-dlp returned no stream URL');
+            return streamUrl;
+        });
+        streamUrls.set(cacheKey, pending);
+        // Forget failures so a later stage can retry
+        pending.catch(() => streamUrls.delete(cacheKey));
+    }
+    return pending;
+}
+
+/**
+ * Find scene changes with ffmpeg's `scene` filter. Only keyframes are
+ * decoded (slides and cuts nearly always start one), which keeps the pass
+ * fast enough for long videos. Returns null when ffmpeg is unavailable or
+ * the pass fails, so the caller can fall back to storyboards.
+ */
+export async function detectScenesWithFfmpeg(videoId: string, threshold: number): Promise<SceneScore[] | null> {
+    if (!(await isFfmpegAvailable())) return null;
+
+    try {
+        const streamUrl = await resolveStreamUrl(videoId);
+        const { stderr } = await runProcess(
+            'ffmpeg',
+            [
+                '-nostdin', '-hide_banner', '-skip_frame', 'nokey', ...getFfmpegInputArgs(), '-i', streamUrl,
+                '-an', '-vf', `scale=320:-2,select='gt(scene,${threshold})',metadata=print`, '-f', 'null', '-',
+            ],
+            SCENE_TIMEOUT_MS,
+        );
+
+        const scenes: SceneScore[] = [];
+        const regex = /pts_time:([\d.]+)[\s\S]*?lavfi\.scene_score=([\d.]+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(stderr)) !== null) {
+            scenes.push({ seconds: parseFloat(match[1]), score: parseFloat(match[2]) });
+        }
+        return scenes;
+    } catch (err) {
+        log.warning(`ffmpeg scene detection failed for ${videoId}: ${(err as Error).message}`);
+        return null;
+    }
+}
+
+/** Extract one frame to a JPEG file; `-ss` before `-i` seeks without decoding up to the timestamp. */
+async function extractFrame(streamUrl: string, seconds: number, outFile: string): Promise<Buffer> {
+    await runProcess(
+        'ffmpeg',
+        ['-nostdin', '-loglevel', 'error', '-ss', formatTimestamp(seconds), ...getFfmpegInputArgs(), '-i', streamUrl, '-frames:v', '1', '-q:v', '2', '-y', outFile],
+        FRAME_TIMEOUT_MS,
+    );
+    return readFile(outFile);
+}
+
+/**
+ * Extract frames at several timestamps with ffmpeg. The stream URL is
+ * resolved once, then frames are extracted by a small pool of async ffmpeg
+ * processes, each with its own timeout.
+ *
+ * Frames go to the default key-value store, or to `storeName` (the cache
+ * store) when given. Returns each saved frame (record URL and image) by key. Frames that fail are
+ * logged with the reason and left out, so the caller can fall back to
+ * storyboards for them.
+ */
+export async function captureWithFfmpeg(
+    videoId: string,
+    requests: FfmpegFrameRequest[],
+    storeName?: string,
+): Promise<Map<string, CapturedImage>> {
+    const captured = new Map<string, CapturedImage>();
+    if (requests.length === 0 || !(await isFfmpegAvailable())) return captured;
+
+    let streamUrl: string;
+    try {
+        streamUrl = await resolveStreamUrl(videoId);
+    } catch (err) {
+        log.warning(`Could not resolve a stream for ${videoId}, skipping ffmpeg capture: ${(err as Error).message}`);
+        return captured;
+    }
+
+    const dir = await mkdtemp(join(tmpdir(), `frames-${videoId}-`));
+    const failures: string[] = [];
+    let next = 0;
+
+    const worker = async () => {
+        while (next < requests.length) {
+            const { seconds, key } = requests[next++];
+            try {
+                const image = await extractFrame(streamUrl, seconds, join(dir, `${key}.jpg`));
+                const url = await saveRecord(key, image, 'image/jpeg', storeName);
+                if (url) captured.set(key, { url, image });
+            } catch (err) {
+                failures.push(`${formatTimestamp(seconds)}: ${(err as Error).message}`);
+            }
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.min(FFMPEG_CONCURRENCY, requests.length) }, worker));
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    if (failures.length > 0) {
+        log.warning(`ffmpeg failed for ${failures.length}/${requests.length} frames of ${videoId}:\n  ${failures.join('\n  ')}`);
+    }
+    log.info(`ffmpeg captured ${captured.size}/${requests.length} frames for ${videoId}`);
+    return captured;
+}
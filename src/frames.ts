@@ -1,111 +1,137 @@
 import { log } from 'crawlee';
-import { Actor } from 'apify';
-import type { StillFrame, VideoChapter, TranscriptSegment } from './types.js';
-import { formatTimestamp } from './transcript.js';
-
-/** Parsed storyboard tile info */
-interface StoryboardTile {
-    url: string;
-    tileRect: { x: number; y: number; w: number; h: number };
-    timestampMs: number;
+import type { StillFrame, VideoChapter, TranscriptSegment, FrameStrategy, FrameSelectionReason, CacheOptions } from './types.js';
+import { formatTimestamp, parseTimestamp } from './transcript.js';
+import { saveRecord } from './utils.js';
+import {
+    parseStoryboardSpec,
+    findNearestTile,
+    downloadSheet,
+    cropTile,
+    type StoryboardTile,
+    type StoryboardLevel,
+    type StoryboardPreference,
+    type CroppedTile,
+} from './storyboard.js';
+import { captureWithFfmpeg, type CapturedImage } from './ffmpeg.js';
+import { loadCachedFrames, markCachedFrames } from './cache.js';
+import { computeImageHash, hammingDistance } from './imageHash.js';
+import { recognizeFrame } from './ocr.js';
+import type { SceneChange } from './scenes.js';
+
+/** Options for `captureFrames` */
+export interface FrameCaptureOptions {
+    durationSeconds: number;
+    /** Crop storyboard tiles out of their sheets into standalone images */
+    cropStoryboard: boolean;
+    /** Upscale factor for an extra copy of cropped storyboard frames (1 = none) */
+    storyboardUpscale: number;
+    storyboardPreference: StoryboardPreference;
+    /** Preferred minimum tile width in `resolution` mode */
+    storyboardTargetWidth?: number;
+    /** Drop perceptual near-duplicates and capture spare timestamps instead */
+    dedupeFrames: boolean;
+    /** Run OCR on each kept frame's image */
+    ocr: boolean;
+    /** Tesseract languages, e.g. `eng+deu` */
+    ocrLanguages: string;
+    /** Result cache; frames are saved to and reused from its store */
+    cache: CacheOptions | null;
+    /** Options hash for storyboard crop keys in the cache store (see `getOptionsHash`) */
+    optionsHash?: string;
+    /** Storyboard sheets already downloaded for this video (e.g. by scene detection) */
+    sheetCache?: Map<string, Promise<Buffer>>;
 }
 
 /** Internal timestamp with metadata */
 interface TimestampCandidate {
     seconds: number;
     label: string;
-    relevance: string;
-    priority: number;
+    relevance: FrameStrategy | 'explicit';
+    /** Strategy weight; higher wins when candidates are close together */
+    weight: number;
     transcriptContext?: string;
     chapterTitle?: string;
+    /** Why the candidate made it into the budget */
+    reason?: FrameSelectionReason;
 }
 
-// --- Visual cue patterns ---
-const VISUAL_CUE_PATTERNS = [
-    /as you can see/i,
-    /let me show you/i,
-    /this diagram/i,
-    /here'?s the code/i,
-    /this example/i,
-    /look at this/i,
-    /on the screen/i,
-    /right here/i,
-    /notice that/i,
-    /take a look/i,
-];
+/** How `pickTimestamps` chooses candidate timestamps */
+export interface FrameSelection {
+    maxFrames: number;
+    intervalSeconds: number;
+    /** Weight per strategy; 0 disables the strategy */
+    weights: Record<FrameStrategy, number>;
+    /** Visual cue patterns for the transcript's language (see `buildCuePatterns`) */
+    cuePatterns: RegExp[];
+    /** Timestamps (seconds) that are always captured */
+    explicitTimestamps: number[];
+    /** Candidates closer than this to a better one are dropped */
+    dedupWindowSeconds: number;
+    /** Capture chapter frames this long after the chapter starts */
+    chapterOffsetSeconds: number;
+    /** Only pick timestamps inside this window (default: the whole video) */
+    window?: { startSeconds: number; endSeconds: number };
+}
+
+/** Default strategy weights, in the order the strategies used to be prioritised */
+export const DEFAULT_STRATEGY_WEIGHTS: Record<FrameStrategy, number> = {
+    scene_change: 5,
+    visual_cue: 4,
+    chapter_start: 3,
+    topic_transition: 2,
+    interval: 1,
+};
 
 /**
- * Parse a YouTube storyboard spec string into time-indexed thumbnail tiles.
- *
- * Spec format: quality levels separated by `#`.
- * Each level: `baseUrl|width|height|count|cols|rows|intervalMs|sigh|...`
- * The baseUrl contains `$M` placeholder for the sheet index.
+ * Merge the enabled strategies and custom weights from the input into a full
+ * weight table. Disabled strategies get weight 0.
  */
-export function parseStoryboardSpec(spec: string): StoryboardTile[] {
-    const tiles: StoryboardTile[] = [];
-    const levels = spec.split('#');
-    if (levels.length < 2) return tiles;
-
-    // Use the highest quality level (last one)
-    const bestLevel = levels[levels.length - 1];
-    const parts = bestLevel.split('|');
-    if (parts.length < 8) return tiles;
-
-    // First level has the full base URL, subsequent levels may have partial
-    const baseUrlRoot = levels[0].split('|')[0];
-    const levelUrl = parts[0] || baseUrlRoot;
-    const width = parseInt(parts[1], 10);
-    const height = parseInt(parts[2], 10);
-    const count = parseInt(parts[3], 10);
-    const cols = parseInt(parts[4], 10);
-    const rows = parseInt(parts[5], 10);
-    const intervalMs = parseInt(parts[6], 10);
-    const sigh = parts[7];
-
-    if (!width || !height || !count || !cols || !rows || !intervalMs) return tiles;
-
-    const tilesPerSheet = cols * rows;
-
-    for (let i = 0; i < count; i++) {
-        const sheetIndex = Math.floor(i / tilesPerSheet);
-        const posInSheet = i % tilesPerSheet;
-        const col = posInSheet % cols;
-        const row = Math.floor(posInSheet / cols);
-
-        // Replace $M with sheet index and append sigh
-        let url = levelUrl.replace('$M', String(sheetIndex));
-        if (sigh && !url.includes('sigh=')) {
-            url += (url.includes('?') ? '&' : '?') + `sigh=${sigh}`;
-        }
-
-        tiles.push({
-            url,
-            tileRect: { x: col * width, y: row * height, w: width, h: height },
-            timestampMs: i * intervalMs,
-        });
+export function buildStrategyWeights(
+    enabled: FrameStrategy[] | undefined,
+    weights: Partial<Record<FrameStrategy, number>> | undefined,
+): Record<FrameStrategy, number> {
+    const result = { ...DEFAULT_STRATEGY_WEIGHTS };
+    for (const strategy of Object.keys(result) as FrameStrategy[]) {
+        const weight = weights?.[strategy] ?? result[strategy];
+        result[strategy] = enabled && !enabled.includes(strategy) ? 0 : Math.max(0, weight);
     }
-
-    return tiles;
+    return result;
 }
 
-/**
- * Find the nearest storyboard tile for a given timestamp.
- */
-function findNearestTile(tiles: StoryboardTile[], seconds: number): StoryboardTile | null {
-    if (tiles.length === 0) return null;
-    const targetMs = seconds * 1000;
-    let best = tiles[0];
-    let bestDist = Math.abs(best.timestampMs - targetMs);
-    for (const tile of tiles) {
-        const dist = Math.abs(tile.timestampMs - targetMs);
-        if (dist < bestDist) {
-            best = tile;
-            bestDist = dist;
+/** Parse explicit frame timestamps given as seconds or `m:ss` strings; invalid ones are skipped with a warning. */
+export function parseFrameTimestamps(values: Array<number | string>): number[] {
+    const result: number[] = [];
+    for (const value of values) {
+        const seconds = typeof value === 'number' ? value : parseTimestamp(value);
+        if (seconds === null || !Number.isFinite(seconds) || seconds < 0) {
+            log.warning(`Ignoring invalid frame timestamp: ${value}`);
+            continue;
         }
+        result.push(seconds);
     }
-    return best;
+    return result;
+}
+
+/** Timestamps chosen for capture, plus ranked spares to replace duplicates with */
+export interface FramePlan {
+    selected: TimestampCandidate[];
+    /** Unused candidates, best first */
+    spares: TimestampCandidate[];
 }
 
+/** A captured frame with the image used for hashing (null when only a URL is known) */
+interface CapturedFrame {
+    candidate: TimestampCandidate;
+    frame: StillFrame;
+    image: Buffer | null;
+}
+
+/** Frames whose hashes differ in at most this many of 64 bits are duplicates */
+const DUPLICATE_HASH_DISTANCE = 6;
+
+/** Rounds of capturing spares to replace dropped duplicates */
+const MAX_REPLACEMENT_ROUNDS = 3;
+
 /**
  * Find the chapter title for a given timestamp.
  */
@@ -135,127 +161,309 @@ function getTranscriptContext(segments: TranscriptSegment[], seconds: number): s
 /**
  * Determine which timestamps to capture frames at using smart selection.
  *
- * Priority:
- *  1. Visual cues in transcript text
- *  2. Chapter starts (offset by 5s)
- *  3. Topic transitions (>3s gaps in transcript)
- *  4. Interval-based fallback
+ * Strategies (each with a weight from `selection.weights`, 0 = off):
+ *  - scene_change: scene and slide changes detected in the video
+ *  - visual_cue: cue phrases in the transcript ("as you can see")
+ *  - chapter_start: chapter starts, plus `chapterOffsetSeconds`
+ *  - topic_transition: >3s gaps in the transcript
+ *  - interval: every `intervalSeconds`
+ *
+ * Only timestamps inside `selection.window` are considered; a chapter that
+ * is already running at the window start gets its frame there.
  *
- * De-duplicates within 10s, keeping higher priority entries.
+ * Explicit timestamps are always captured. Other candidates within
+ * `dedupWindowSeconds` of a heavier one are dropped, and the rest are fitted
+ * into the remaining budget by `allocateBudget`. Candidates not selected
+ * are returned as spares, best first, for `captureFrames` to use when it
+ * drops near-duplicate images.
  */
 export function pickTimestamps(
     durationSeconds: number,
     chapters: VideoChapter[],
-    maxFrames: number,
-    intervalSeconds: number,
     transcript: TranscriptSegment[],
-): TimestampCandidate[] {
+    selection: FrameSelection,
+    sceneChanges: SceneChange[] = [],
+): FramePlan {
+    const { weights } = selection;
     const candidates: TimestampCandidate[] = [];
+    const windowStart = selection.window?.startSeconds ?? 0;
+    const windowEnd = Math.min(selection.window?.endSeconds ?? durationSeconds, durationSeconds);
+    const inWindow = (seconds: number) => seconds >= windowStart && seconds < windowEnd;
+
+    if (weights.scene_change > 0) {
+        for (const scene of sceneChanges) {
+            if (!inWindow(scene.seconds)) continue;
+            candidates.push({
+                seconds: scene.seconds,
+                label: `Scene change at ${formatTimestamp(scene.seconds)}`,
+                relevance: 'scene_change',
+                weight: weights.scene_change,
+                transcriptContext: getTranscriptContext(transcript, scene.seconds),
+                chapterTitle: getChapterAt(chapters, scene.seconds),
+            });
+        }
+    }
 
-    // Priority 1: Visual cues in transcript
-    for (const seg of transcript) {
-        for (const pattern of VISUAL_CUE_PATTERNS) {
-            if (pattern.test(seg.text)) {
+    if (weights.visual_cue > 0) {
+        for (const seg of transcript) {
+            if (inWindow(seg.startSeconds) && selection.cuePatterns.some((pattern) => pattern.test(seg.text))) {
                 candidates.push({
                     seconds: seg.startSeconds,
                     label: seg.text.slice(0, 80),
                     relevance: 'visual_cue',
-                    priority: 1,
+                    weight: weights.visual_cue,
                     transcriptContext: seg.text,
                     chapterTitle: getChapterAt(chapters, seg.startSeconds),
                 });
-                break; // one match per segment is enough
             }
         }
     }
 
-    // Priority 2: Chapter starts (offset by 5s)
-    for (const ch of chapters) {
-        const t = Math.max(0, Math.min(ch.startSeconds + 5, durationSeconds - 1));
-        candidates.push({
-            seconds: t,
-            label: ch.title,
-            relevance: 'chapter_start',
-            priority: 2,
-            transcriptContext: getTranscriptContext(transcript, t),
-            chapterTitle: ch.title,
-        });
+    if (weights.chapter_start > 0) {
+        for (const ch of chapters) {
+            if (ch.endSeconds <= windowStart || ch.startSeconds >= windowEnd) continue;
+            const t = Math.max(windowStart, Math.min(ch.startSeconds + selection.chapterOffsetSeconds, windowEnd - 1));
+            candidates.push({
+                seconds: t,
+                label: ch.title,
+                relevance: 'chapter_start',
+                weight: weights.chapter_start,
+                transcriptContext: getTranscriptContext(transcript, t),
+                chapterTitle: ch.title,
+            });
+        }
     }
 
-    // Priority 3: Topic transitions (>3s gaps in transcript)
-    for (let i = 1; i < transcript.length; i++) {
-        const prev = transcript[i - 1];
-        const curr = transcript[i];
-        const gap = curr.startSeconds - (prev.startSeconds + prev.durationSeconds);
-        if (gap > 3) {
+    if (weights.topic_transition > 0) {
+        for (let i = 1; i < transcript.length; i++) {
+            const prev = transcript[i - 1];
+            const curr = transcript[i];
+            const gap = curr.startSeconds - (prev.startSeconds + prev.durationSeconds);
+            if (gap > 3 && inWindow(curr.startSeconds)) {
+                candidates.push({
+                    seconds: curr.startSeconds,
+                    label: `Topic transition at ${formatTimestamp(curr.startSeconds)}`,
+                    relevance: 'topic_transition',
+                    weight: weights.topic_transition,
+                    transcriptContext: curr.text,
+                    chapterTitle: getChapterAt(chapters, curr.startSeconds),
+                });
+            }
+        }
+    }
+
+    if (weights.interval > 0) {
+        const interval = Math.max(selection.intervalSeconds, 10);
+        for (let t = windowStart + interval; t < windowEnd - 5; t += interval) {
             candidates.push({
-                seconds: curr.startSeconds,
-                label: `Topic transition at ${formatTimestamp(curr.startSeconds)}`,
-                relevance: 'topic_transition',
-                priority: 3,
-                transcriptContext: curr.text,
-                chapterTitle: getChapterAt(chapters, curr.startSeconds),
+                seconds: t,
+                label: `Frame at ${formatTimestamp(t)}`,
+                relevance: 'interval',
+                weight: weights.interval,
+                transcriptContext: getTranscriptContext(transcript, t),
+                chapterTitle: getChapterAt(chapters, t),
             });
         }
     }
 
-    // Priority 4: Interval fallback
-    const interval = Math.max(intervalSeconds, 10);
-    for (let t = interval; t < durationSeconds - 5; t += interval) {
-        candidates.push({
+    // Explicit timestamps are kept as-is and count towards maxFrames
+    const explicit: TimestampCandidate[] = [...new Set(selection.explicitTimestamps)]
+        .filter(inWindow)
+        .map((t) => ({
             seconds: t,
-            label: `Frame at ${formatTimestamp(t)}`,
-            relevance: 'interval',
-            priority: 4,
+            label: `Requested frame at ${formatTimestamp(t)}`,
+            relevance: 'explicit',
+            weight: Infinity,
             transcriptContext: getTranscriptContext(transcript, t),
             chapterTitle: getChapterAt(chapters, t),
-        });
-    }
+        }));
 
-    // De-duplicate within 10s, keeping higher priority (lower number)
-    candidates.sort((a, b) => a.priority - b.priority || a.seconds - b.seconds);
+    // De-duplicate within the window, keeping the heavier candidate
+    candidates.sort((a, b) => b.weight - a.weight || a.seconds - b.seconds);
     const deduped: TimestampCandidate[] = [];
     for (const c of candidates) {
-        const tooClose = deduped.some((d) => Math.abs(d.seconds - c.seconds) < 10);
+        const tooClose = [...explicit, ...deduped].some((d) => Math.abs(d.seconds - c.seconds) < selection.dedupWindowSeconds);
         if (!tooClose) {
             deduped.push(c);
         }
     }
 
-    // Sort by time order
-    deduped.sort((a, b) => a.seconds - b.seconds);
+    const budget = Math.max(0, selection.maxFrames - explicit.length);
+    const allocated = allocateBudget(deduped, budget, chapters, explicit);
+
+    const selected = [...explicit.map((c) => ({ ...c, reason: 'explicit' as const })), ...allocated]
+        .sort((a, b) => a.seconds - b.seconds);
+    const spares = deduped
+        .filter((c) => !allocated.some((a) => a.seconds === c.seconds))
+        .sort((a, b) => b.weight - a.weight || a.seconds - b.seconds);
+    return { selected, spares };
+}
+
+/** Distance from a timestamp to the nearest already selected one. */
+function distanceToNearest(seconds: number, selected: TimestampCandidate[]): number {
+    return selected.reduce((min, s) => Math.min(min, Math.abs(s.seconds - seconds)), Infinity);
+}
+
+/**
+ * Choose at most `budget` candidates:
+ *  1. Each chapter gets its heaviest candidate (when there are more chapters
+ *     than slots, the chapters with the heaviest candidates win)
+ *  2. Remaining slots go to weight tiers from heaviest down; a tier that
+ *     does not fit is thinned by repeatedly taking the candidate farthest
+ *     from everything already selected, so frames spread across time
+ *
+ * Each pick records why it was kept in `reason`.
+ */
+function allocateBudget(
+    candidates: TimestampCandidate[],
+    budget: number,
+    chapters: VideoChapter[],
+    explicit: TimestampCandidate[],
+): TimestampCandidate[] {
+    if (candidates.length <= budget) {
+        return candidates.map((c) => ({ ...c, reason: 'within_budget' }));
+    }
 
-    // Limit to maxFrames via even sampling
-    if (deduped.length > maxFrames) {
-        const step = deduped.length / maxFrames;
-        const sampled: TimestampCandidate[] = [];
-        for (let i = 0; i < maxFrames; i++) {
-            sampled.push(deduped[Math.floor(i * step)]);
+    const picked: TimestampCandidate[] = [];
+    const remaining = new Set(candidates);
+    const take = (c: TimestampCandidate, reason: FrameSelectionReason) => {
+        picked.push({ ...c, reason });
+        remaining.delete(c);
+    };
+
+    // 1. Chapter coverage
+    const chapterBest = chapters
+        .map((ch) => candidates
+            .filter((c) => c.seconds >= ch.startSeconds && c.seconds < Math.max(ch.endSeconds, ch.startSeconds + 1))
+            .sort((a, b) => b.weight - a.weight || a.seconds - b.seconds)[0])
+        .filter((c): c is TimestampCandidate => c !== undefined)
+        .sort((a, b) => b.weight - a.weight || a.seconds - b.seconds);
+    for (const c of chapterBest.slice(0, budget)) take(c, 'chapter_coverage');
+
+    // 2. Weight tiers, thinned by time coverage when a tier does not fit
+    const tiers = [...new Set([...remaining].map((c) => c.weight))].sort((a, b) => b - a);
+    for (const weight of tiers) {
+        const tier = [...remaining].filter((c) => c.weight === weight);
+        const slots = budget - picked.length;
+        if (slots <= 0) break;
+        if (tier.length <= slots) {
+            for (const c of tier) take(c, 'priority');
+            continue;
+        }
+        for (let i = 0; i < slots; i++) {
+            const anchors = [...explicit, ...picked];
+            const farthest = tier
+                .filter((c) => remaining.has(c))
+                .reduce((best, c) => (distanceToNearest(c.seconds, anchors) > distanceToNearest(best.seconds, anchors) ? c : best));
+            take(farthest, 'time_coverage');
         }
-        return sampled;
     }
 
-    return deduped;
+    return picked;
 }
 
 /**
  * Capture still frames using a fallback chain:
- *  1. ffmpeg (yt-dlp + ffmpeg, requires Docker)
- *  2. Storyboard thumbnail tiles (parsed from spec)
+ *  1. ffmpeg (yt-dlp + ffmpeg, requires Docker); all frames are extracted
+ *     up front from one resolved stream
+ *  2. Storyboard thumbnail tiles (parsed from spec), cropped out of their
+ *     sprite sheet and saved as standalone images when `cropStoryboard` is set
  *  3. hqdefault.jpg fallback
+ *
+ * Each captured image gets a perceptual hash. With `dedupeFrames`, frames
+ * that look like an already kept (heavier) frame are dropped and spare
+ * timestamps from the plan are captured in their place. With a cache,
+ * frames are saved to its store and frames already there are reused instead
+ * of being captured again. With `ocr`, on-screen text is recognised on the
+ * frames that are kept.
  */
 export async function captureFrames(
     videoId: string,
-    timestamps: TimestampCandidate[],
+    plan: FramePlan,
     storyboardSpec: string | null,
+    options: FrameCaptureOptions,
 ): Promise<StillFrame[]> {
-    const frames: StillFrame[] = [];
-    const storyboardTiles = storyboardSpec ? parseStoryboardSpec(storyboardSpec) : [];
+    const storyboardLevels = storyboardSpec ? parseStoryboardSpec(storyboardSpec, options.durationSeconds) : [];
+    const sheetCache = options.sheetCache ?? new Map<string, Promise<Buffer>>();
+
+    log.info(`Capturing ${plan.selected.length} still frames for video ${videoId} (storyboard levels: ${storyboardLevels.length})`);
+
+    const captureBatch = (batch: TimestampCandidate[]) => captureCandidates(videoId, batch, storyboardLevels, sheetCache, options);
+
+    let batch = await captureBatch(plan.selected);
+    if (!options.dedupeFrames) return recognizeFrames(batch, options);
+
+    const kept: CapturedFrame[] = [];
+    const spares = [...plan.spares];
+    let dropped = 0;
+
+    for (let round = 0; ; round++) {
+        batch.sort((a, b) => b.candidate.weight - a.candidate.weight || a.candidate.seconds - b.candidate.seconds);
+        for (const captured of batch) {
+            const hash = captured.frame.perceptualHash;
+            const isDuplicate = hash !== undefined && captured.candidate.relevance !== 'explicit' && kept.some((k) => (
+                k.frame.perceptualHash !== undefined && hammingDistance(k.frame.perceptualHash, hash) <= DUPLICATE_HASH_DISTANCE
+            ));
+            if (isDuplicate) {
+                dropped++;
+            } else {
+                kept.push(captured);
+            }
+        }
 
-    log.info(`Capturing ${timestamps.length} still frames for video ${videoId} (storyboard tiles: ${storyboardTiles.length})`);
+        const missing = plan.selected.length - kept.length;
+        if (missing <= 0 || spares.length === 0 || round >= MAX_REPLACEMENT_ROUNDS) break;
+        batch = await captureBatch(spares.splice(0, missing).map((c) => ({ ...c, reason: 'duplicate_replacement' as const })));
+    }
+
+    if (dropped > 0) {
+        log.info(`Dropped ${dropped} near-duplicate frames for video ${videoId}, kept ${kept.length}`);
+    }
+    kept.sort((a, b) => a.candidate.seconds - b.candidate.seconds);
+    return recognizeFrames(kept, options);
+}
+
+/** Attach OCR results to the frames when enabled; frames without an image are skipped. */
+async function recognizeFrames(captured: CapturedFrame[], options: FrameCaptureOptions): Promise<StillFrame[]> {
+    if (options.ocr) {
+        for (const { frame, image } of captured) {
+            if (!image) continue;
+            const ocr = await recognizeFrame(image, options.ocrLanguages);
+            if (ocr) frame.ocr = ocr;
+        }
+    }
+    return captured.map((c) => c.frame);
+}
+
+/** Capture one batch of timestamps through the fallback chain and hash the images. */
+async function captureCandidates(
+    videoId: string,
+    timestamps: TimestampCandidate[],
+    storyboardLevels: StoryboardLevel[],
+    sheetCache: Map<string, Promise<Buffer>>,
+    options: FrameCaptureOptions,
+): Promise<CapturedFrame[]> {
+    // Only ffmpeg frames are reused from the cache; storyboard crops get their own keys
+    const frameKey = (seconds: number) => `frame-${videoId}-${Math.floor(seconds)}`;
+    // Crops depend on the storyboard options, so in the cache store their keys carry the options hash
+    const tilePrefix = options.optionsHash ? `sb-frame-${videoId}-${options.optionsHash}` : `sb-frame-${videoId}`;
+    const tileKey = (seconds: number) => `${tilePrefix}-${Math.floor(seconds)}`;
+    const storeName = options.cache?.storeName;
+    const cachedFrames = options.cache
+        ? await loadCachedFrames(options.cache, videoId, timestamps.map((ts) => frameKey(ts.seconds)))
+        : new Map<string, CapturedImage>();
+    const ffmpegFrames = await captureWithFfmpeg(
+        videoId,
+        timestamps
+            .map((ts) => ({ seconds: ts.seconds, key: frameKey(ts.seconds) }))
+            .filter((req) => !cachedFrames.has(req.key)),
+        storeName,
+    );
+    if (options.cache) await markCachedFrames(options.cache, videoId, [...ffmpegFrames.keys()]);
 
+    const results: CapturedFrame[] = [];
     for (const ts of timestamps) {
-        const key = `frame-${videoId}-${Math.floor(ts.seconds)}`;
+        const key = frameKey(ts.seconds);
         const base: Omit<StillFrame, 'imageUrl'> = {
             timestampSeconds: ts.seconds,
             timestampFormatted: formatTimestamp(ts.seconds),
@@ -263,76 +471,100 @@ export async function captureFrames(
             transcriptContext: ts.transcriptContext,
             chapterTitle: ts.chapterTitle,
             relevance: ts.relevance,
+            selectionReason: ts.reason,
         };
 
-        // Fallback 1: ffmpeg
-        try {
-            const captured = await captureWithFfmpeg(videoId, ts.seconds, key);
-            if (captured) {
-                frames.push({ ...base, imageUrl: captured });
-                continue;
-            }
-        } catch {
-            // ffmpeg not available, fall through
+        let captured: CapturedFrame;
+
+        const cachedFrame = cachedFrames.get(key);
+        const ffmpegFrame = ffmpegFrames.get(key);
+        const tile = cachedFrame || ffmpegFrame
+            ? null
+            : findNearestTile(storyboardLevels, ts.seconds, options.storyboardPreference, options.storyboardTargetWidth);
+
+        if (cachedFrame) {
+            // Captured by an earlier run with the cache enabled
+            captured = { candidate: ts, frame: { ...base, imageUrl: cachedFrame.url, reusedFromCache: true }, image: cachedFrame.image };
+        } else if (ffmpegFrame) {
+            // Fallback 1: ffmpeg
+            captured = { candidate: ts, frame: { ...base, imageUrl: ffmpegFrame.url }, image: ffmpegFrame.image };
+        } else if (tile) {
+            // Fallback 2: storyboard tile (cropped in memory for hashing even when not saved)
+            const cropped = options.cropStoryboard || options.dedupeFrames
+                ? await cropStoryboardTile(tile, key, options.cropStoryboard ? options.storyboardUpscale : 1, sheetCache)
+                : null;
+            const saved = cropped && options.cropStoryboard
+                ? await saveCroppedTile(cropped, tileKey(ts.seconds), options.storyboardUpscale, storeName)
+                : null;
+            captured = {
+                candidate: ts,
+                frame: {
+                    ...base,
+                    imageUrl: saved?.imageUrl ?? tile.url,
+                    upscaledImageUrl: saved?.upscaledImageUrl,
+                    sheetUrl: tile.url,
+                    tileRect: tile.tileRect,
+                    storyboardLevel: tile.level,
+                },
+                image: cropped?.image ?? null,
+            };
+        } else {
+            // Fallback 3: hqdefault.jpg (the same image for every timestamp, so never hashed)
+            captured = {
+                candidate: ts,
+                frame: { ...base, imageUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`, isFallback: true },
+                image: null,
+            };
         }
 
-        // Fallback 2: storyboard tile
-        const tile = findNearestTile(storyboardTiles, ts.seconds);
-        if (tile) {
-            frames.push({ ...base, imageUrl: tile.url, tileRect: tile.tileRect });
-            continue;
+        if (captured.image) {
+            try {
+                captured.frame.perceptualHash = await computeImageHash(captured.image);
+            } catch (err) {
+                log.warning(`Could not hash frame ${key}: ${(err as Error).message}`);
+            }
         }
-
-        // Fallback 3: hqdefault.jpg
-        frames.push({ ...base, imageUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`, isFallback: true });
+        results.push(captured);
     }
-
-    return frames;
+    return results;
 }
 
 /**
- * Attempt to capture a single frame using yt-dlp + ffmpeg.
- * Returns a Key-Value Store URL if successful, null otherwise.
+ * Crop a storyboard tile out of its sheet (plus the optional upscaled copy).
+ * Returns null if the sheet cannot be downloaded or cropped, so the caller
+ * falls back to the sheet URL + `tileRect`.
  */
-async function captureWithFfmpeg(
-    videoId: string,
-    timestampSeconds: number,
+async function cropStoryboardTile(
+    tile: StoryboardTile,
     key: string,
-): Promise<string | null> {
+    upscale: number,
+    sheetCache: Map<string, Promise<Buffer>>,
+): Promise<CroppedTile | null> {
     try {
-        const { execFileSync } = await import('child_process');
-        const { readFileSync, unlinkSync, existsSync } = await import('fs');
-
-        const tmpFile = `/tmp/${key}.jpg`;
-        const timestamp = formatTimestamp(timestampSeconds);
-        const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-
-        const streamUrl = execFileSync(
-            'yt-dlp',
-            ['-f', 'best[height<=720]', '--get-url', videoUrl],
-            { encoding: 'utf-8', timeout: 60000 },
-        ).trim();
-
-        if (!streamUrl) return null;
-
-        execFileSync(
-            'ffmpeg',
-            ['-ss', timestamp, '-i', streamUrl, '-frames:v', '1', '-q:v', '2', tmpFile, '-y'],
-            { timeout: 45000, stdio: 'pipe' },
-        );
-
-        if (!existsSync(tmpFile)) return null;
-
-        const buffer = readFileSync(tmpFile);
-        const kvStore = await Actor.openKeyValueStore();
-        await kvStore.setValue(key, buffer, { contentType: 'image/jpeg' });
-
-        unlinkSync(tmpFile);
-
-        const storeId = process.env.APIFY_DEFAULT_KEY_VALUE_STORE_ID;
-        if (!storeId) return null;
-        return `https://api.apify.com/v2/key-value-stores/${storeId}/records/${key}`;
-    } catch {
+        const sheet = await downloadSheet(tile.url, sheetCache);
+        return await cropTile(sheet, tile.tileRect, upscale);
+    } catch (err) {
+        log.warning(`Could not crop storyboard tile for ${key}: ${(err as Error).message}`);
         return null;
     }
 }
+
+/**
+ * Save a cropped tile (and its upscaled copy) to the default key-value
+ * store, or to the cache store `storeName`.
+ * Returns null when running locally without record URLs.
+ */
+async function saveCroppedTile(
+    cropped: CroppedTile,
+    key: string,
+    upscale: number,
+    storeName: string | undefined,
+): Promise<{ imageUrl: string; upscaledImageUrl?: string } | null> {
+    const imageUrl = await saveRecord(key, cropped.image, 'image/jpeg', storeName);
+    if (!imageUrl) return null;
+
+    const upscaledImageUrl = cropped.upscaled
+        ? await saveRecord(`${key}-x${upscale}`, cropped.upscaled, 'image/jpeg', storeName) ?? undefined
+        : undefined;
+    return { imageUrl, upscaledImageUrl };
+}
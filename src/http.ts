@@ -0,0 +1,179 @@
+import { log } from 'crawlee';
+import { getSessionId, rotateSession, sendRequest } from './session.js';
+
+/** Requests in flight per host */
+const HOST_CONCURRENCY = 4;
+
+/** Minimum spacing between request starts per host (at most 5 per second) */
+const HOST_MIN_INTERVAL_MS = 200;
+
+/** Each attempt is aborted after this long (including reading the body) */
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Upper bound for a single backoff delay, and for honouring `Retry-After` */
+const MAX_RETRY_DELAY_MS = 120000;
+
+/** Retries allowed across the whole run; once spent, requests fail on the first error */
+const RUN_RETRY_BUDGET = 300;
+
+/** Request counters for one host */
+export interface HostStats {
+    requests: number;
+    retries: number;
+    rateLimited: number;
+    failed: number;
+}
+
+/** Hosts served by YouTube; only their rate limits are tied to the proxy session */
+const YOUTUBE_HOST_PATTERN = /(^|\.)(youtube\.com|youtu\.be|ytimg\.com|googlevideo\.com)$/;
+
+/** Limiter state for one host */
+interface HostState {
+    active: number;
+    waiting: Array<() => void>;
+    /** Earliest time (ms) the next request may start */
+    nextStartAt: number;
+    stats: HostStats;
+}
+
+const hosts = new Map<string, HostState>();
+let retriesLeft = RUN_RETRY_BUDGET;
+
+function getHost(host: string): HostState {
+    let state = hosts.get(host);
+    if (!state) {
+        state = { active: 0, waiting: [], nextStartAt: 0, stats: { requests: 0, retries: 0, rateLimited: 0, failed: 0 } };
+        hosts.set(host, state);
+    }
+    return state;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Wait for a free slot on the host, then for its rate limit. */
+async function acquireSlot(state: HostState): Promise<void> {
+    if (state.active < HOST_CONCURRENCY) {
+        state.active++;
+    } else {
+        // The slot is handed over by releaseSlot, so `active` stays the same
+        await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + HOST_MIN_INTERVAL_MS;
+    if (startAt > now) await sleep(startAt - now);
+}
+
+function releaseSlot(state: HostState): void {
+    const next = state.waiting.shift();
+    if (next) next();
+    else state.active--;
+}
+
+/**
+ * Read the whole body into memory, so the download happens while the caller
+ * still holds the host's slot. Bodies here are pages, JSON and images, so
+ * buffering them is cheap.
+ */
+async function readBody(res: Response): Promise<Response> {
+    if (!res.body) return res;
+    const body = await res.arrayBuffer();
+    const buffered = new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+    Object.defineProperty(buffered, 'url', { value: res.url });
+    return buffered;
+}
+
+/** Delay requested by a `Retry-After` header (seconds or HTTP date), or null. */
+function parseRetryAfter(res: Response): number | null {
+    const value = res.headers.get('retry-after');
+    if (!value) return null;
+    const seconds = Number(value);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(value).getTime() - Date.now();
+    return Number.isFinite(ms) ? Math.max(0, ms) : null;
+}
+
+/** Exponential backoff with jitter (50-100% of the full delay), so retries don't line up. */
+function backoffDelay(baseDelayMs: number, attempt: number): number {
+    const full = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+    return Math.round(full * (0.5 + Math.random() / 2));
+}
+
+/** Take one retry from the run budget; false once it is spent. */
+function takeRetry(): boolean {
+    if (retriesLeft <= 0) return false;
+    retriesLeft--;
+    if (retriesLeft === 0) log.warning(`Retry budget of ${RUN_RETRY_BUDGET} retries for this run is spent, failing requests will no longer be retried`);
+    return true;
+}
+
+/**
+ * Fetch with automatic retry, using the run's proxy session and cookies.
+ *
+ * Requests are limited per host (concurrency and start rate); a request
+ * holds its host slot until the body has been read, so downloads count
+ * towards the limit. Each attempt times out via `AbortSignal`. Retries on 429 (after `Retry-After` when
+ * given, which also pauses the host; YouTube hosts also get a new proxy
+ * session when there is a proxy), 5xx and network errors, with jittered exponential backoff,
+ * while the run's retry budget lasts.
+ * Does not retry on 403/404 (client errors that won't resolve with retries).
+ */
+export async function fetchWithRetry(
+    url: string,
+    options?: RequestInit,
+    maxRetries = 3,
+    baseDelayMs = 1000,
+): Promise<Response> {
+    const host = new URL(url).hostname;
+    const state = getHost(host);
+
+    for (let attempt = 0; ; attempt++) {
+        await acquireSlot(state);
+        state.stats.requests++;
+        const sessionId = getSessionId();
+        let res: Response;
+        try {
+            res = await sendRequest(url, { ...options, signal: options?.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+            res = await readBody(res);
+        } catch (err) {
+            if (attempt < maxRetries && takeRetry()) {
+                state.stats.retries++;
+                const delay = backoffDelay(baseDelayMs, attempt);
+                log.warning(`Fetch failed for ${url}: ${(err as Error).message}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})...`);
+                await sleep(delay);
+                continue;
+            }
+            state.stats.failed++;
+            throw err;
+        } finally {
+            releaseSlot(state);
+        }
+
+        if (res.ok || res.status === 404 || res.status === 403) {
+            return res;
+        }
+        if (res.status === 429) state.stats.rateLimited++;
+        if ((res.status === 429 || res.status >= 500) && attempt < maxRetries && takeRetry()) {
+            state.stats.retries++;
+            const retryAfter = res.status === 429 ? parseRetryAfter(res) : null;
+            const delay = retryAfter !== null ? Math.min(retryAfter, MAX_RETRY_DELAY_MS) : backoffDelay(baseDelayMs, attempt);
+            log.warning(`Fetch returned ${res.status} for ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})...`);
+            if (res.status === 429) {
+                // Hold back every request to this host, not just this one
+                state.nextStartAt = Math.max(state.nextStartAt, Date.now() + delay);
+                // Other hosts' limits (e.g. link shorteners) say nothing about the YouTube session
+                if (YOUTUBE_HOST_PATTERN.test(host)) await rotateSession(`status 429 for ${host}`, sessionId);
+            }
+            await sleep(delay);
+            continue;
+        }
+        state.stats.failed++;
+        return res;
+    }
+}
+
+/** Request counters per host since the start of the run. */
+export function getHttpStats(): Record<string, HostStats> {
+    return Object.fromEntries([...hosts].map(([host, state]) => [host, { ...state.stats }]));
+}
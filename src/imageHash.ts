@@ -0,0 +1,43 @@
+import sharp from 'sharp';
+
+/** Hash grid: 9x8 grey pixels give 8x8 = 64 left/right comparisons */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Perceptual difference hash (dHash) of an image, as 16 hex characters.
+ * The image is shrunk to 9x8 grey pixels and each bit records whether a
+ * pixel is brighter than its right neighbour, so re-encoding, scaling and
+ * small noise leave the hash (nearly) unchanged.
+ */
+export async function computeImageHash(image: Buffer): Promise<string> {
+    const pixels = await sharp(image)
+        .greyscale()
+        .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        let byte = 0;
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            const i = y * HASH_WIDTH + x;
+            byte = (byte << 1) | (pixels[i] > pixels[i + 1] ? 1 : 0);
+        }
+        hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+}
+
+/** Number of differing bits between two hashes from `computeImageHash` (0-64). */
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+        let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
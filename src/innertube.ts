@@ -0,0 +1,63 @@
+import { YOUTUBE_HEADERS } from './utils.js';
+import { fetchWithRetry } from './http.js';
+
+/** Client settings needed to call the InnerTube (youtubei/v1) API */
+export interface InnertubeConfig {
+    apiKey: string;
+    clientName: string;
+    clientVersion: string;
+    visitorData?: string;
+}
+
+/**
+ * Read the InnerTube API key and client context from the `ytcfg` block
+ * embedded in any YouTube page. Returns null if the page has no key.
+ */
+export function extractInnertubeConfig(html: string): InnertubeConfig | null {
+    const apiKey = html.match(/"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/)?.[1];
+    if (!apiKey) return null;
+
+    return {
+        apiKey,
+        clientName: html.match(/"INNERTUBE_CLIENT_NAME"\s*:\s*"([^"]+)"/)?.[1] ?? 'WEB',
+        clientVersion: html.match(/"INNERTUBE_CLIENT_VERSION"\s*:\s*"([^"]+)"/)?.[1] ?? '2.20240101.00.00',
+        visitorData: html.match(/"VISITOR_DATA"\s*:\s*"([^"]+)"/)?.[1],
+    };
+}
+
+/**
+ * POST to a youtubei/v1 endpoint (e.g. `browse` for playlist continuations)
+ * with the client context taken from the page. Throws on non-2xx responses.
+ */
+export async function innertubeRequest<T>(
+    endpoint: string,
+    config: InnertubeConfig,
+    body: Record<string, unknown>,
+): Promise<T> {
+    const url = `https://www.youtube.com/youtubei/v1/${endpoint}?key=${config.apiKey}&prettyPrint=false`;
+    const res = await fetchWithRetry(url, {
+        method: 'POST',
+        headers: {
+            ...YOUTUBE_HEADERS,
+            'Content-Type': 'application/json',
+            'X-YouTube-Client-Version': config.clientVersion,
+            ...(config.visitorData ? { 'X-Goog-Visitor-Id': config.visitorData } : {}),
+        },
+        body: JSON.stringify({
+            context: {
+                client: {
+                    clientName: config.clientName,
+                    clientVersion: config.clientVersion,
+                    hl: 'en',
+                    visitorData: config.visitorData,
+                },
+            },
+            ...body,
+        }),
+    });
+
+    if (!res.ok) {
+        throw new Error(`InnerTube ${endpoint} request failed with status ${res.status}`);
+    }
+    return (await res.json()) as T;
+}
@@ -0,0 +1,284 @@
+import { log } from 'crawlee';
+import type { ExtractedLink, LinkCategory, LinkSource, StillFrame, TranscriptSegment } from './types.js';
+import { formatTimestamp } from './transcript.js';
+import { YOUTUBE_HEADERS } from './utils.js';
+import { fetchWithRetry } from './http.js';
+
+/** Regex to find URLs in text */
+const URL_REGEX = /https?:\/\/[^\s)<>\"]+/g;
+
+/** Bare domains as shown on screen ("github.com/foo/bar"), for OCR text without a scheme */
+const BARE_URL_REGEX = /(?<![\w@/.-])(?:www\.)?(?:[a-z0-9-]+\.)+(?:com|org|net|io|dev|app|ai|gg|ly|co|me|tv|xyz|to|link)(?:\/[^\s)<>"]*)?(?![\w@-])/gi;
+
+/** Redirect wrappers and the query parameter holding the real target */
+const REDIRECT_WRAPPERS: Array<{ host: RegExp; path: RegExp; param: string }> = [
+    { host: /(^|\.)youtube\.com$/, path: /^\/redirect/, param: 'q' },
+    { host: /(^|\.)google\.[a-z.]+$/, path: /^\/url/, param: 'q' },
+    { host: /^l\.facebook\.com$/, path: /^\/l\.php/, param: 'u' },
+    { host: /^l\.instagram\.com$/, path: /.*/, param: 'u' },
+];
+
+/** URL shorteners whose target is only known after following the redirect */
+const SHORTENER_HOSTS = new Set([
+    'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'buff.ly', 'rebrand.ly', 'is.gd', 'cutt.ly',
+    'shorturl.at', 'tiny.cc', 'rb.gy', 'bit.do', 'dub.sh', 'lnkd.in', 'amzn.to', 'amzn.eu', 'geni.us',
+    'fave.co', 'howl.me', 'go.magik.ly', 'kit.co', 'linktr.ee',
+]);
+
+/** Tracking parameters dropped from the normalised URL */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|si|feature|igshid|mc_cid|mc_eid|ref_src)$/i;
+
+/** Hosts of social networks and community platforms */
+const SOCIAL_HOSTS = /(^|\.)(twitter\.com|x\.com|instagram\.com|facebook\.com|tiktok\.com|linkedin\.com|discord\.gg|discord\.com|reddit\.com|threads\.net|twitch\.tv|mastodon\.social|bsky\.app|patreon\.com|ko-fi\.com|buymeacoffee\.com)$/;
+
+/** Hosts and URL hints that mark affiliate links */
+const AFFILIATE_HOSTS = /(^|\.)(amzn\.to|amzn\.eu|geni\.us|shareasale\.com|awin1\.com|click\.linksynergy\.com|anrdoezrs\.net|kqzyfj\.com|tkqlhce\.com|dpbolvw\.net|jdoqocy\.com|skimresources\.com|fave\.co|howl\.me)$/;
+const AFFILIATE_PARAMS = /^(tag|aff|affiliate|aff_id|affiliate_id|ref|referral|partner|irclickid|afftrack)$/i;
+
+/** Wording around a link that marks a paid sponsorship */
+const SPONSOR_CONTEXT = /sponsor|promo code|use code|discount code|\bcode [A-Z0-9]{3,}\b|% off|free trial/i;
+
+/** GitHub paths that are not `owner/repo` */
+const GITHUB_RESERVED = new Set(['sponsors', 'features', 'topics', 'orgs', 'marketplace', 'about', 'pricing', 'settings', 'login', 'join']);
+
+/** Follow at most this many redirect hops when resolving shorteners */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Unwrap redirect wrappers such as `youtube.com/redirect?q=...`, repeatedly
+ * (wrappers are sometimes nested). Returns the input if it is not wrapped.
+ */
+export function unwrapRedirect(url: string): string {
+    let current = url;
+    for (let i = 0; i < 3; i++) {
+        let parsed: URL;
+        try {
+            parsed = new URL(current);
+        } catch {
+            return current;
+        }
+        const wrapper = REDIRECT_WRAPPERS.find((w) => w.host.test(parsed.hostname) && w.path.test(parsed.pathname));
+        const target = wrapper ? parsed.searchParams.get(wrapper.param) : null;
+        if (!target || !/^https?:\/\//i.test(target)) return current;
+        current = target;
+    }
+    return current;
+}
+
+/**
+ * Normalise a URL for de-duplication: lower-case host without `www.`,
+ * tracking parameters removed, no trailing slash, no fragment.
+ */
+export function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+        parsed.hash = '';
+        for (const key of [...parsed.searchParams.keys()]) {
+            if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+        }
+        return parsed.toString().replace(/\/(?=$|\?)/, '');
+    } catch {
+        return url;
+    }
+}
+
+/** Host of a URL without `www.`, or empty string if unparseable. */
+function getDomain(url: string): string {
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Classify a (final) link by its URL and the text around it.
+ */
+export function classifyLink(url: string, context: string): LinkCategory {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'other';
+    }
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.split('/').filter(Boolean);
+
+    if (host === 'youtu.be' || (/(^|\.)youtube\.com$/.test(host) && (parsed.searchParams.has('v') || path[0] === 'shorts' || path[0] === 'live'))) {
+        return 'youtube_video';
+    }
+    if (SPONSOR_CONTEXT.test(context)) return 'sponsor';
+    if (AFFILIATE_HOSTS.test(host) || [...parsed.searchParams.keys()].some((k) => AFFILIATE_PARAMS.test(k))) {
+        return 'affiliate';
+    }
+    if ((host === 'github.com' || host === 'gitlab.com') && path.length >= 2 && !GITHUB_RESERVED.has(path[0].toLowerCase())) {
+        return 'github_repo';
+    }
+    if (/^(docs|developer|developers|devdocs|api|learn|wiki)\./.test(host) || /readthedocs\.io$|gitbook\.io$/.test(host)
+        || path.some((p) => /^(docs|documentation|reference|api-reference|manual)$/i.test(p))) {
+        return 'docs';
+    }
+    if (SOCIAL_HOSTS.test(host) || (/(^|\.)youtube\.com$/.test(host) && /^(@|channel$|c$|user$)/.test(path[0] ?? ''))) {
+        return 'social';
+    }
+    return 'other';
+}
+
+/**
+ * Build a link record from a raw match; the final URL is the unwrapped one
+ * until redirects are resolved. Sponsor wording is only looked for on the
+ * link's own line so it does not leak onto neighbouring links.
+ */
+function buildLink(url: string, context: string, line: string, source: LinkSource): ExtractedLink {
+    const finalUrl = unwrapRedirect(url);
+    return {
+        url,
+        context,
+        source,
+        finalUrl,
+        normalizedUrl: normalizeUrl(finalUrl),
+        domain: getDomain(finalUrl),
+        category: classifyLink(finalUrl, line),
+    };
+}
+
+/**
+ * Extract all URLs from a text block, with surrounding context.
+ * Redirect wrappers are unwrapped and each link is classified; shorteners
+ * are only resolved later by `resolveLinkRedirects`.
+ */
+export function extractLinks(text: string, source: LinkSource = 'description'): ExtractedLink[] {
+    const links: ExtractedLink[] = [];
+    const seen = new Set<string>();
+
+    let match: RegExpExecArray | null;
+    const regex = new RegExp(URL_REGEX.source, 'g');
+
+    while ((match = regex.exec(text)) !== null) {
+        let url = match[0];
+        // Clean trailing punctuation that's likely not part of the URL
+        url = url.replace(/[.,;:!?)]+$/, '');
+
+        if (seen.has(url)) continue;
+        seen.add(url);
+
+        // Grab some context around the link
+        const start = Math.max(0, match.index - 40);
+        const end = Math.min(text.length, match.index + url.length + 40);
+        const context = text.slice(start, end).replace(/\n/g, ' ').trim();
+
+        const lineStart = text.lastIndexOf('\n', match.index) + 1;
+        const lineEnd = text.indexOf('\n', match.index);
+        const line = text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+
+        links.push(buildLink(url, context, line, source));
+    }
+
+    return links;
+}
+
+/**
+ * Extract links from transcript segments, recording the timestamp of the
+ * segment in which each URL starts.
+ */
+export function extractTranscriptLinks(segments: TranscriptSegment[]): ExtractedLink[] {
+    // One line per segment, so sponsor wording is matched per segment; remember
+    // where each segment starts in the joined text
+    const offsets: number[] = [];
+    let text = '';
+    for (const seg of segments) {
+        offsets.push(text.length);
+        text += `${seg.text}\n`;
+    }
+
+    return extractLinks(text, 'transcript').map((link) => {
+        const position = text.indexOf(link.url);
+        let index = 0;
+        while (index + 1 < offsets.length && offsets[index + 1] <= position) index++;
+        const seconds = segments[index]?.startSeconds ?? 0;
+        return { ...link, timestampSeconds: seconds, timestampFormatted: formatTimestamp(seconds) };
+    });
+}
+
+/**
+ * Extract links from OCR text of captured frames, recording the frame's
+ * timestamp. On-screen URLs are often shown without a scheme, so bare
+ * domains with a common TLD are picked up too and given `https://`.
+ */
+export function extractFrameLinks(frames: StillFrame[]): ExtractedLink[] {
+    const links: ExtractedLink[] = [];
+    for (const frame of frames) {
+        const text = frame.ocr?.text;
+        if (!text) continue;
+
+        const withSchemes = text.replace(new RegExp(BARE_URL_REGEX.source, 'gi'), (match, offset: number) => (
+            /https?:\/\/$/i.test(text.slice(Math.max(0, offset - 8), offset)) ? match : `https://${match}`
+        ));
+        for (const link of extractLinks(withSchemes, 'ocr')) {
+            links.push({ ...link, timestampSeconds: frame.timestampSeconds, timestampFormatted: frame.timestampFormatted });
+        }
+    }
+    return links;
+}
+
+/**
+ * Follow a shortener's redirect chain with HEAD requests (no body download)
+ * and return the final URL, or null if it cannot be resolved.
+ */
+async function followRedirects(url: string): Promise<string | null> {
+    let current = url;
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+        const res = await fetchWithRetry(current, { method: 'HEAD', redirect: 'manual', headers: YOUTUBE_HEADERS }, 1);
+        const location = res.headers.get('location');
+        if (res.status < 300 || res.status >= 400 || !location) {
+            return hop === 0 ? null : current;
+        }
+        current = new URL(location, current).toString();
+    }
+    return current;
+}
+
+/**
+ * Resolve URL shorteners (`bit.ly`, `amzn.to`, ...) to their destination and
+ * re-derive domain, category and normalised URL from it. Links that fail to
+ * resolve keep their unwrapped URL.
+ */
+export async function resolveLinkRedirects(links: ExtractedLink[]): Promise<ExtractedLink[]> {
+    return Promise.all(links.map(async (link) => {
+        if (!SHORTENER_HOSTS.has(link.domain)) return link;
+        try {
+            const resolved = await followRedirects(link.finalUrl);
+            if (!resolved) return link;
+            const finalUrl = unwrapRedirect(resolved);
+            // Sponsor wording was already checked; shortened affiliate links stay affiliate
+            // even when the destination looks plain
+            const category = classifyLink(finalUrl, '');
+            return {
+                ...link,
+                finalUrl,
+                normalizedUrl: normalizeUrl(finalUrl),
+                domain: getDomain(finalUrl),
+                category: link.category === 'sponsor' || (link.category === 'affiliate' && category === 'other')
+                    ? link.category
+                    : category,
+            };
+        } catch (err) {
+            log.warning(`Could not resolve ${link.url}: ${(err as Error).message}`);
+            return link;
+        }
+    }));
+}
+
+/**
+ * De-duplicate links on their normalised final URL, keeping the first
+ * occurrence (description links come before transcript links).
+ */
+export function dedupeLinks(links: ExtractedLink[]): ExtractedLink[] {
+    const seen = new Set<string>();
+    return links.filter((l) => {
+        if (seen.has(l.normalizedUrl)) return false;
+        seen.add(l.normalizedUrl);
+        return true;
+    });
+}
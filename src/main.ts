@@ -1,10 +1,12 @@
 import { Actor } from 'apify';
 import { log } from 'crawlee';
-import type { ActorInput, ActorOutput } from './types.js';
-import { extractVideoId, fetchTranscript } from './transcript.js';
-import { fetchMetadata } from './metadata.js';
-import { extractLinks } from './metadata.js';
-import { pickTimestamps, captureFrames } from './frames.js';
+import type { ActorInput, ActorOutput, ScrapeOptions } from './types.js';
+import { resolveVideos, buildClipRange } from './sources.js';
+import { processVideo } from './video.js';
+import { buildStrategyWeights, parseFrameTimestamps } from './frames.js';
+import { readCachedOutput, writeCachedOutput } from './cache.js';
+import { configureHttpSession } from './session.js';
+import { getHttpStats } from './http.js';
 
 await Actor.init();
 
@@ -12,113 +14,117 @@ try {
     // ----- Input -----
     const input = (await Actor.getInput<ActorInput>()) ?? ({} as ActorInput);
 
-    const rawUrl = (input.videoUrl ?? '').trim();
-    if (!rawUrl) {
-        throw new Error('Missing required input field "videoUrl". Provide a YouTube URL or video ID.');
+    const rawUrls = [input.videoUrl ?? '', ...(input.videoUrls ?? [])]
+        .map((url) => url.trim())
+        .filter(Boolean);
+    if (rawUrls.length === 0) {
+        throw new Error('Missing required input: provide "videoUrl" or "videoUrls" with YouTube video, playlist or channel URLs.');
     }
 
-    const language = input.language ?? 'en';
-    const shouldCaptureFrames = input.captureFrames ?? true;
-    const maxFrames = Math.max(1, Math.min(50, input.maxFrames ?? 10));
-    const frameInterval = Math.max(10, Math.min(600, input.frameIntervalSeconds ?? 60));
-
-    const videoId = extractVideoId(rawUrl);
-    log.info(`Processing video: ${videoId}`);
-
-    // ----- Fetch metadata + transcript in parallel (resilient) -----
-    const results = await Promise.allSettled([
-        fetchMetadata(videoId),
-        fetchTranscript(videoId, language),
-    ]);
-
-    const metadata = results[0].status === 'fulfilled'
-        ? results[0].value
-        : {
-            title: 'Unknown',
-            channelName: 'Unknown',
-            channelUrl: '',
-            publishedDate: '',
-            duration: '0:00',
-            durationSeconds: 0,
-            viewCount: 0,
-            description: '',
-            thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/maxresdefault.jpg`,
-            chapters: [],
-            links: [],
-            storyboardSpec: null,
-        };
-
-    if (results[0].status === 'rejected') {
-        log.warning(`Metadata fetch failed, using defaults: ${results[0].reason}`);
-    }
+    const options: ScrapeOptions = {
+        languages: [...new Set(input.languages?.length ? input.languages : [input.language ?? 'en'])],
+        translateCaptions: input.translateCaptions ?? true,
+        includeWordTimings: input.includeWordTimings ?? false,
+        cleanTranscript: input.cleanTranscript ?? false,
+        soundTags: input.soundTags ?? 'normalize',
+        transcribeAudioFallback: input.transcribeAudioFallback ?? false,
+        maxTranscriptionMinutes: Math.max(1, Math.min(600, input.maxTranscriptionMinutes ?? 60)),
+        captureFrames: input.captureFrames ?? true,
+        maxFrames: Math.max(1, Math.min(50, input.maxFrames ?? 10)),
+        frameIntervalSeconds: Math.max(10, Math.min(600, input.frameIntervalSeconds ?? 60)),
+        frameStrategyWeights: buildStrategyWeights(input.frameStrategies, input.frameStrategyWeights),
+        visualCuePhrases: input.visualCuePhrases ?? {},
+        frameTimestamps: parseFrameTimestamps(input.frameTimestamps ?? []),
+        frameDedupWindowSeconds: Math.max(0, Math.min(300, input.frameDedupWindowSeconds ?? 10)),
+        chapterFrameOffsetSeconds: Math.max(0, Math.min(60, input.chapterFrameOffsetSeconds ?? 5)),
+        cropStoryboardFrames: input.cropStoryboardFrames ?? true,
+        storyboardUpscale: Math.max(1, Math.min(4, input.storyboardUpscale ?? 1)),
+        storyboardPreference: input.storyboardPreference ?? 'resolution',
+        storyboardTargetWidth: input.storyboardTargetWidth,
+        detectSceneChanges: input.detectSceneChanges ?? false,
+        dedupeFrames: input.dedupeFrames ?? true,
+        ocrFrames: input.ocrFrames ?? false,
+        ocrLanguages: input.ocrLanguages?.trim() || 'eng',
+        transcriptFormats: [...new Set(input.transcriptFormats ?? [])],
+        resolveLinkRedirects: input.resolveLinkRedirects ?? true,
+        scrapeComments: input.scrapeComments ?? false,
+        maxComments: Math.max(1, Math.min(10000, input.maxComments ?? 100)),
+        commentsSort: input.commentsSort ?? 'top',
+        includeCommentReplies: input.includeCommentReplies ?? false,
+        clip: null,
+        cache: input.useCache
+            ? {
+                storeName: input.cacheStoreName?.trim() || 'youtube-scraper-cache',
+                ttlHours: Math.max(0, input.cacheTtlHours ?? 168),
+                forceRefresh: input.forceRefresh ?? false,
+            }
+            : null,
+    };
+    const maxVideosPerSource = Math.max(1, Math.min(5000, input.maxVideosPerSource ?? 50));
+    const failOnPartialResults = input.failOnPartialResults ?? false;
 
-    const transcript = results[1].status === 'fulfilled' ? results[1].value : [];
+    // ----- Proxy and cookies for every request -----
+    await configureHttpSession(input.proxyConfiguration, input.cookies);
 
-    if (results[1].status === 'rejected') {
-        log.warning(`Transcript fetch failed, using empty transcript: ${results[1].reason}`);
+    // ----- Expand playlists / channels into videos -----
+    const videos = await resolveVideos(rawUrls, maxVideosPerSource);
+    if (videos.length === 0) {
+        throw new Error(`Could not resolve any videos from input: ${rawUrls.join(', ')}`);
     }
-
-    // ----- Full transcript as a single text block -----
-    const fullTranscriptText = transcript.map((seg) => seg.text).join(' ');
-
-    // ----- Extract links from transcript too -----
-    const transcriptLinks = extractLinks(fullTranscriptText);
-    const allLinks = [...metadata.links, ...transcriptLinks];
-
-    // De-duplicate links by URL
-    const seenUrls = new Set<string>();
-    const uniqueLinks = allLinks.filter((l) => {
-        if (seenUrls.has(l.url)) return false;
-        seenUrls.add(l.url);
-        return true;
-    });
-
-    // ----- Capture still frames -----
-    let frames: ActorOutput['frames'] = [];
-
-    if (shouldCaptureFrames && metadata.durationSeconds > 0) {
-        const timestamps = pickTimestamps(
-            metadata.durationSeconds,
-            metadata.chapters,
-            maxFrames,
-            frameInterval,
-            transcript,
-        );
-
-        if (timestamps.length > 0) {
-            frames = await captureFrames(videoId, timestamps, metadata.storyboardSpec);
+    log.info(`Resolved ${videos.length} video(s) from ${rawUrls.length} input URL(s)`);
+
+    // ----- Process each video -----
+    let failed = 0;
+    let partial = 0;
+    for (const [index, { videoId, sourceUrl, urlClip }] of videos.entries()) {
+        log.info(`Processing video ${index + 1}/${videos.length}: ${videoId}`);
+        try {
+            const videoOptions: ScrapeOptions = { ...options, clip: buildClipRange(urlClip, input.startSeconds, input.endSeconds) };
+            const cached = options.cache ? await readCachedOutput(options.cache, videoId, videoOptions) : null;
+            let output: ActorOutput;
+            if (cached) {
+                log.info(`  Using cached result from ${cached.cachedAt}`);
+                output = { ...cached, sourceUrl };
+            } else {
+                output = await processVideo(videoId, sourceUrl, videoOptions);
+                // Only complete results are cached, so failures are retried on the next run
+                if (options.cache && output.status === 'ok') await writeCachedOutput(options.cache, videoId, videoOptions, output);
+            }
+            await Actor.pushData(output);
+
+            if (output.status === 'failed') failed++;
+            if (output.status === 'partial') partial++;
+            log.info(`  Status: ${output.status}`);
+            for (const stage of output.stages) {
+                if (stage.status === 'failed' || stage.status === 'partial') {
+                    log.warning(`  ${stage.stage}: ${stage.status} (${stage.code ?? 'UNKNOWN'}) ${stage.message ?? ''}`.trimEnd());
+                }
+            }
+            log.info(`  Title: ${output.title}`);
+            log.info(`  Transcript segments: ${output.transcript.length}`);
+            log.info(`  Chapters: ${output.chapters.length}`);
+            log.info(`  Links found: ${output.links.length}`);
+            if (output.comments) log.info(`  Comments: ${output.comments.length}`);
+            log.info(`  Frames captured: ${output.frames.length}`);
+        } catch (err) {
+            failed++;
+            log.error(`Video ${videoId} failed: ${(err as Error).message}`);
         }
     }
 
-    // ----- Build output -----
-    const output: ActorOutput = {
-        videoId,
-        title: metadata.title,
-        channelName: metadata.channelName,
-        channelUrl: metadata.channelUrl,
-        publishedDate: metadata.publishedDate,
-        duration: metadata.duration,
-        durationSeconds: metadata.durationSeconds,
-        viewCount: metadata.viewCount,
-        description: metadata.description,
-        thumbnailUrl: metadata.thumbnailUrl,
-        chapters: metadata.chapters,
-        transcript,
-        fullTranscriptText,
-        links: uniqueLinks,
-        frames,
-        videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
-    };
-
-    // ----- Push to dataset -----
-    await Actor.pushData(output);
-
-    log.info('Done! Output pushed to default dataset.');
-    log.info(`  Title: ${output.title}`);
-    log.info(`  Transcript segments: ${transcript.length}`);
-    log.info(`  Chapters: ${metadata.chapters.length}`);
-    log.info(`  Links found: ${uniqueLinks.length}`);
-    log.info(`  Frames captured: ${frames.length}`);
+    log.info(`Done! ${videos.length - failed - partial}/${videos.length} video(s) scraped completely, ${partial} partially, ${failed} failed.`);
+    const httpStats = Object.entries(getHttpStats());
+    const total = (key: 'requests' | 'retries' | 'rateLimited' | 'failed') => httpStats.reduce((sum, [, stats]) => sum + stats[key], 0);
+    log.info(`HTTP: ${total('requests')} request(s), ${total('retries')} retried, ${total('rateLimited')} rate limited, ${total('failed')} failed`);
+    for (const [host, stats] of httpStats) {
+        log.info(`  ${host}: ${stats.requests} request(s), ${stats.retries} retried, ${stats.rateLimited} rate limited, ${stats.failed} failed`);
+    }
+    if (failed === videos.length) {
+        throw new Error('All videos failed to process');
+    }
+    if (failOnPartialResults && failed + partial > 0) {
+        throw new Error(`${failed + partial} video(s) were not scraped completely (failOnPartialResults is set)`);
+    }
 } catch (err) {
     log.error(`Actor failed: ${(err as Error).message}`);
     throw err;
@@ -1,13 +1,11 @@
 import { log } from 'crawlee';
-import type { VideoChapter, ExtractedLink } from './types.js';
+import type { VideoChapter, ExtractedLink, VideoThumbnail, LiveBroadcastDetails } from './types.js';
 import { formatTimestamp } from './transcript.js';
-import { fetchWithRetry, YOUTUBE_HEADERS, extractPlayerResponse } from './utils.js';
-
-/** Regex to find URLs in text */
-const URL_REGEX = /https?:\/\/[^\s)<>\"]+/g;
-
-/** Regex to find timestamp-based chapters in descriptions like "0:00 Intro" */
-const CHAPTER_REGEX = /^\s*(?:(\d{1,3}):)?(\d{1,2}):(\d{2})\s*[-\u2013\u2014]?\s+(.+)$/gm;
+import type { WatchPage } from './watchPage.js';
+import { extractChapters } from './chapters.js';
+import { extractLinks } from './links.js';
+import { findAllByKey, readText, parseCompactNumber } from './utils.js';
+import { fetchWithRetry } from './http.js';
 
 export interface VideoMetadata {
     title: string;
@@ -17,179 +15,172 @@ export interface VideoMetadata {
     duration: string;
     durationSeconds: number;
     viewCount: number;
+    likeCount: number | null;
+    commentCount: number | null;
+    channelId: string;
+    channelSubscriberCount: number | null;
+    uploadDate: string;
+    keywords: string[];
+    category: string;
+    isFamilySafe: boolean;
+    isUnlisted: boolean;
+    isLiveContent: boolean;
+    isShort: boolean;
+    liveBroadcast: LiveBroadcastDetails | null;
+    availableCountries: string[];
     description: string;
     thumbnailUrl: string;
+    thumbnails: VideoThumbnail[];
     chapters: VideoChapter[];
     links: ExtractedLink[];
     storyboardSpec: string | null;
 }
 
+/** Longest duration (seconds) YouTube accepts for a Short */
+const MAX_SHORT_SECONDS = 180;
+
 /**
- * Fetch video metadata by scraping the YouTube watch page.
- *
- * Strategy:
- *  1. oEmbed API for title + channel (always works, official endpoint)
- *  2. Watch page HTML -> extract ytInitialPlayerResponse JSON for duration,
- *     description, view count, etc.
+ * Build video metadata from an already-parsed watch page (player response
+ * and ytInitialData). Pure — no network access, so it can be tested against
+ * saved fixtures.
  */
-export async function fetchMetadata(videoId: string): Promise<VideoMetadata> {
-    log.info(`Fetching metadata for video ${videoId}`);
-
-    // --- oEmbed (reliable basics) ---
-    let title = 'Unknown';
-    let channelName = 'Unknown';
-    let channelUrl = '';
-
-    try {
-        const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
-        const oembedRes = await fetchWithRetry(oembedUrl);
-        if (oembedRes.ok) {
-            const oembed = (await oembedRes.json()) as {
-                title?: string;
-                author_name?: string;
-                author_url?: string;
-            };
-            title = oembed.title ?? title;
-            channelName = oembed.author_name ?? channelName;
-            channelUrl = oembed.author_url ?? channelUrl;
-        }
-    } catch (err) {
-        log.warning(`oEmbed fetch failed: ${(err as Error).message}`);
-    }
+export function extractMetadata(videoId: string, page: WatchPage | null): VideoMetadata {
+    const player = page?.playerResponse;
+    const details = player?.videoDetails;
+    const micro = player?.microformat?.playerMicroformatRenderer;
 
-    // --- Watch page scrape (description, duration, views) ---
-    let description = '';
-    let durationSeconds = 0;
-    let viewCount = 0;
-    let publishedDate = '';
-    let storyboardSpec: string | null = null;
+    const initialData = page?.initialData ?? null;
 
-    try {
-        const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
-        const watchRes = await fetchWithRetry(watchUrl, { headers: YOUTUBE_HEADERS });
-        if (!watchRes.ok) {
-            log.warning(`Watch page returned status ${watchRes.status}`);
-        } else {
-            const html = await watchRes.text();
+    const description = details?.shortDescription ?? '';
+    const durationSeconds = parseInt(details?.lengthSeconds ?? '0', 10);
+    const live = micro?.liveBroadcastDetails;
 
-            // Extract ytInitialPlayerResponse
-            const playerObj = extractPlayerResponse(html);
-            if (playerObj) {
-                const player = playerObj as {
-                    videoDetails?: {
-                        shortDescription?: string;
-                        lengthSeconds?: string;
-                        viewCount?: string;
-                        title?: string;
-                        author?: string;
-                        channelId?: string;
-                    };
-                    microformat?: {
-                        playerMicroformatRenderer?: {
-                            publishDate?: string;
-                            description?: { simpleText?: string };
-                        };
-                    };
-                    storyboards?: {
-                        playerStoryboardSpecRenderer?: {
-                            spec?: string;
-                        };
-                    };
-                };
-                const details = player.videoDetails;
-                if (details) {
-                    description = details.shortDescription ?? '';
-                    durationSeconds = parseInt(details.lengthSeconds ?? '0', 10);
-                    viewCount = parseInt(details.viewCount ?? '0', 10);
-                    if (title === 'Unknown') title = details.title ?? title;
-                    if (channelName === 'Unknown') channelName = details.author ?? channelName;
-                    if (!channelUrl && details.channelId) {
-                        channelUrl = `https://www.youtube.com/channel/${details.channelId}`;
-                    }
-                }
-                const micro = player.microformat?.playerMicroformatRenderer;
-                if (micro) {
-                    publishedDate = micro.publishDate ?? '';
-                }
-                storyboardSpec = player.storyboards?.playerStoryboardSpecRenderer?.spec ?? null;
-            }
-        }
-    } catch (err) {
-        log.warning(`Watch page scrape failed: ${(err as Error).message}`);
-    }
-
-    const thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/maxresdefault.jpg`;
-    const chapters = parseChapters(description);
-    const links = extractLinks(description);
+    // A Short is a portrait video of at most MAX_SHORT_SECONDS
+    const format = player?.streamingData?.formats?.[0] ?? player?.streamingData?.adaptiveFormats?.[0];
+    const isPortrait = Boolean(format?.width && format?.height && format.height > format.width);
 
     return {
-        title,
-        channelName,
-        channelUrl,
-        publishedDate,
+        title: details?.title ?? 'Unknown',
+        channelName: details?.author ?? 'Unknown',
+        channelUrl: details?.channelId ? `https://www.youtube.com/channel/${details.channelId}` : '',
+        publishedDate: micro?.publishDate ?? '',
         duration: formatTimestamp(durationSeconds),
         durationSeconds,
-        viewCount,
+        viewCount: parseInt(details?.viewCount ?? '0', 10),
+        likeCount: readLikeCount(initialData),
+        commentCount: readCommentCount(initialData),
+        channelId: details?.channelId ?? '',
+        channelSubscriberCount: readSubscriberCount(initialData),
+        uploadDate: micro?.uploadDate ?? '',
+        keywords: details?.keywords ?? [],
+        category: micro?.category ?? '',
+        isFamilySafe: micro?.isFamilySafe ?? true,
+        isUnlisted: micro?.isUnlisted ?? false,
+        isLiveContent: details?.isLiveContent ?? false,
+        isShort: micro?.isShortsEligible ?? (isPortrait && durationSeconds > 0 && durationSeconds <= MAX_SHORT_SECONDS),
+        liveBroadcast: live
+            ? {
+                isLiveNow: live.isLiveNow ?? false,
+                startTimestamp: live.startTimestamp ?? null,
+                endTimestamp: live.endTimestamp ?? null,
+            }
+            : null,
+        availableCountries: micro?.availableCountries ?? [],
         description,
-        thumbnailUrl,
-        chapters,
-        links,
-        storyboardSpec,
+        thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/maxresdefault.jpg`,
+        thumbnails: (details?.thumbnail?.thumbnails ?? micro?.thumbnail?.thumbnails ?? []).map((t) => ({
+            url: t.url,
+            width: t.width ?? null,
+            height: t.height ?? null,
+        })),
+        chapters: extractChapters(initialData, description, durationSeconds),
+        links: extractLinks(description),
+        storyboardSpec: player?.storyboards?.playerStoryboardSpecRenderer?.spec ?? null,
     };
 }
 
 /**
- * Parse chapter markers from a video description.
- * YouTube chapters are lines like "0:00 Introduction" or "1:23:45 Advanced Topics"
+ * Read the like count from ytInitialData. The like button's accessibility
+ * label ("like this video along with 1,234 other people") has the exact
+ * count; the structured description factoid ("12K" / "Likes") is the
+ * fallback. Returns null when likes are hidden.
  */
-export function parseChapters(description: string): VideoChapter[] {
-    const chapters: VideoChapter[] = [];
-    let match: RegExpExecArray | null;
-
-    // Reset regex
-    CHAPTER_REGEX.lastIndex = 0;
-
-    while ((match = CHAPTER_REGEX.exec(description)) !== null) {
-        const hours = match[1] ? parseInt(match[1], 10) : 0;
-        const minutes = parseInt(match[2], 10);
-        const seconds = parseInt(match[3], 10);
-        const totalSeconds = hours * 3600 + minutes * 60 + seconds;
-
-        chapters.push({
-            title: match[4].trim(),
-            startSeconds: totalSeconds,
-            startFormatted: formatTimestamp(totalSeconds),
-        });
+function readLikeCount(initialData: unknown): number | null {
+    for (const label of findAllByKey(initialData, 'accessibilityText')) {
+        const match = typeof label === 'string' ? label.match(/along with ([\d,]+) other/) : null;
+        if (match) return parseCompactNumber(match[1]);
     }
-
-    return chapters;
+    for (const factoid of findAllByKey(initialData, 'factoidRenderer')) {
+        const { value, label, accessibilityText } = factoid as { value?: unknown; label?: unknown; accessibilityText?: string };
+        if (/likes?/i.test(readText(label))) {
+            return parseCompactNumber(accessibilityText) ?? parseCompactNumber(readText(value));
+        }
+    }
+    return null;
 }
 
 /**
- * Extract all URLs from a text block, with surrounding context.
+ * Read the comment count from the comments entry point or the comments
+ * engagement panel header. Returns null when comments are off or not loaded.
  */
-export function extractLinks(text: string): ExtractedLink[] {
-    const links: ExtractedLink[] = [];
-    const seen = new Set<string>();
-
-    let match: RegExpExecArray | null;
-    const regex = new RegExp(URL_REGEX.source, 'g');
-
-    while ((match = regex.exec(text)) !== null) {
-        let url = match[0];
-        // Clean trailing punctuation that's likely not part of the URL
-        url = url.replace(/[.,;:!?)]+$/, '');
+function readCommentCount(initialData: unknown): number | null {
+    for (const header of findAllByKey(initialData, 'commentsEntryPointHeaderRenderer')) {
+        const count = parseCompactNumber(readText((header as { commentCount?: unknown }).commentCount));
+        if (count !== null) return count;
+    }
+    for (const panel of findAllByKey(initialData, 'engagementPanelSectionListRenderer')) {
+        const { panelIdentifier, header } = panel as { panelIdentifier?: string; header?: unknown };
+        if (panelIdentifier !== 'engagement-panel-comments-section') continue;
+        for (const info of findAllByKey(header, 'contextualInfo')) {
+            const count = parseCompactNumber(readText(info));
+            if (count !== null) return count;
+        }
+    }
+    return null;
+}
 
-        if (seen.has(url)) continue;
-        seen.add(url);
+/**
+ * Read the channel's (rounded) subscriber count from the owner renderer,
+ * e.g. "1.23M subscribers". Returns null when the count is hidden.
+ */
+function readSubscriberCount(initialData: unknown): number | null {
+    for (const owner of findAllByKey(initialData, 'videoOwnerRenderer')) {
+        const count = parseCompactNumber(readText((owner as { subscriberCountText?: unknown }).subscriberCountText));
+        if (count !== null) return count;
+    }
+    return null;
+}
 
-        // Grab some context around the link
-        const start = Math.max(0, match.index - 40);
-        const end = Math.min(text.length, match.index + url.length + 40);
-        const context = text.slice(start, end).replace(/\n/g, ' ').trim();
+/**
+ * Fetch video metadata for a video whose watch page has already been fetched.
+ *
+ * Strategy:
+ *  1. Player response from the shared watch page (duration, description,
+ *     view count, etc.)
+ *  2. oEmbed API for title + channel, only when the player response is
+ *     missing (official endpoint, always works)
+ */
+export async function fetchMetadata(videoId: string, page: WatchPage | null): Promise<VideoMetadata> {
+    const metadata = extractMetadata(videoId, page);
+    if (page?.playerResponse?.videoDetails) return metadata;
 
-        links.push({ url, context });
+    log.info(`Falling back to oEmbed metadata for video ${videoId}`);
+    try {
+        const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
+        const oembedRes = await fetchWithRetry(oembedUrl);
+        if (oembedRes.ok) {
+            const oembed = (await oembedRes.json()) as {
+                title?: string;
+                author_name?: string;
+                author_url?: string;
+            };
+            metadata.title = oembed.title ?? metadata.title;
+            metadata.channelName = oembed.author_name ?? metadata.channelName;
+            metadata.channelUrl = oembed.author_url ?? metadata.channelUrl;
+        }
+    } catch (err) {
+        log.warning(`oEmbed fetch failed: ${(err as Error).message}`);
     }
 
-    return links;
+    return metadata;
 }
@@ -0,0 +1,162 @@
+import { log } from 'crawlee';
+import sharp from 'sharp';
+import type { FrameOcr, OcrLine, OcrBlock } from './types.js';
+import { runProcess } from './process.js';
+
+/** Timeout for OCR of one frame */
+const OCR_TIMEOUT_MS = 60000;
+
+/** Frames narrower than this are upscaled before OCR (storyboard tiles are ~160px) */
+const MIN_OCR_WIDTH = 1280;
+
+/** Words below this tesseract confidence (0-100) are dropped */
+const MIN_WORD_CONFIDENCE = 30;
+
+/** Share of a block's lines that must look like code for the block to be flagged */
+const CODE_LINE_SHARE = 0.5;
+
+/** Signals that a line of text is source code rather than prose */
+const CODE_LINE_PATTERNS = [
+    /[{};]\s*$/,
+    /^\s*[}\])]/,
+    /=>|->|::|!=|==|\+=|&&|\|\||<\/?\w+>/,
+    /^\s*(?:import|from|export|const|let|var|function|def|class|return|if|elif|else|for|while|async|await|public|private|fn|func|package|#include|using|SELECT|INSERT|\$)\b/,
+    /\w+\([^)]*\)\s*[:{;]?$/,
+    /^\s*(?:#|\/\/)\s*\S/,
+];
+
+/** One word row of tesseract's TSV output */
+interface TsvWord {
+    block: number;
+    line: string;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    conf: number;
+    text: string;
+}
+
+let tesseractAvailable: Promise<boolean> | null = null;
+
+/** Check once per run whether the tesseract CLI can be started. */
+export function isTesseractAvailable(): Promise<boolean> {
+    if (!tesseractAvailable) {
+        tesseractAvailable = runProcess('tesseract', ['--version'], 10000).then(
+            () => true,
+            (err: Error) => {
+                log.warning(`OCR disabled, tesseract is not available (${err.message})`);
+                return false;
+            },
+        );
+    }
+    return tesseractAvailable;
+}
+
+/** Parse tesseract's TSV output into words (level 5 rows), scaled back to the original image. */
+function parseTsv(tsv: string, scale: number): TsvWord[] {
+    const words: TsvWord[] = [];
+    for (const row of tsv.split('\n').slice(1)) {
+        const cols = row.split('\t');
+        if (cols.length < 12 || cols[0] !== '5') continue;
+        const text = cols.slice(11).join('\t').trim();
+        const conf = parseFloat(cols[10]);
+        if (!text || conf < MIN_WORD_CONFIDENCE) continue;
+        words.push({
+            block: parseInt(cols[2], 10),
+            line: `${cols[2]}.${cols[3]}.${cols[4]}`,
+            left: Math.round(parseInt(cols[6], 10) / scale),
+            top: Math.round(parseInt(cols[7], 10) / scale),
+            width: Math.round(parseInt(cols[8], 10) / scale),
+            height: Math.round(parseInt(cols[9], 10) / scale),
+            conf,
+            text,
+        });
+    }
+    return words;
+}
+
+/** Bounding box around a set of words. */
+function unionBox(words: TsvWord[]): OcrLine['bbox'] {
+    const x = Math.min(...words.map((w) => w.left));
+    const y = Math.min(...words.map((w) => w.top));
+    const right = Math.max(...words.map((w) => w.left + w.width));
+    const bottom = Math.max(...words.map((w) => w.top + w.height));
+    return { x, y, w: right - x, h: bottom - y };
+}
+
+/** Mean confidence (0-1) of a set of words. */
+function meanConfidence(words: TsvWord[]): number {
+    const mean = words.reduce((sum, w) => sum + w.conf, 0) / words.length;
+    return Math.round(mean) / 100;
+}
+
+/** Whether a line of OCR text looks like source code. */
+function isCodeLine(text: string): boolean {
+    return CODE_LINE_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Group words into lines and blocks (as laid out by tesseract) and flag
+ * blocks where most lines look like code.
+ */
+function buildOcrResult(words: TsvWord[]): FrameOcr {
+    const lineWords = new Map<string, TsvWord[]>();
+    for (const word of words) {
+        const list = lineWords.get(word.line) ?? [];
+        list.push(word);
+        lineWords.set(word.line, list);
+    }
+
+    const lines: Array<OcrLine & { block: number }> = [...lineWords.values()].map((ws) => ({
+        block: ws[0].block,
+        text: ws.map((w) => w.text).join(' '),
+        confidence: meanConfidence(ws),
+        bbox: unionBox(ws),
+    }));
+
+    const blocks: OcrBlock[] = [];
+    for (const blockId of [...new Set(lines.map((l) => l.block))]) {
+        const blockLines = lines.filter((l) => l.block === blockId);
+        const blockWords = words.filter((w) => w.block === blockId);
+        const codeLines = blockLines.filter((l) => isCodeLine(l.text)).length;
+        blocks.push({
+            text: blockLines.map((l) => l.text).join('\n'),
+            confidence: meanConfidence(blockWords),
+            bbox: unionBox(blockWords),
+            isCode: blockLines.length >= 2 && codeLines / blockLines.length >= CODE_LINE_SHARE,
+        });
+    }
+
+    return {
+        text: blocks.map((b) => b.text).join('\n\n'),
+        confidence: words.length > 0 ? meanConfidence(words) : 0,
+        lines: lines.map(({ block: _block, ...line }) => line),
+        blocks,
+        containsCode: blocks.some((b) => b.isCode),
+    };
+}
+
+/**
+ * Run tesseract on a frame image and return the recognised text with line
+ * and block bounding boxes (in the frame's own pixel coordinates). Small
+ * images are upscaled and converted to greyscale first. Returns null when
+ * tesseract is unavailable or fails.
+ */
+export async function recognizeFrame(image: Buffer, languages: string): Promise<FrameOcr | null> {
+    if (!(await isTesseractAvailable())) return null;
+
+    try {
+        const { width = 0 } = await sharp(image).metadata();
+        const scale = width > 0 && width < MIN_OCR_WIDTH ? MIN_OCR_WIDTH / width : 1;
+        let pipeline = sharp(image).greyscale();
+        if (scale > 1) pipeline = pipeline.resize(Math.round(width * scale), null, { kernel: 'lanczos3' });
+        const prepared = await pipeline.png().toBuffer();
+
+        const { stdout } = await runProcess('tesseract', ['stdin', 'stdout', '-l', languages, '--psm', '3', 'tsv'], OCR_TIMEOUT_MS, prepared);
+        return buildOcrResult(parseTsv(stdout, scale));
+    } catch (err) {
+        log.warning(`OCR failed: ${(err as Error).message}`);
+        return null;
+    }
+}
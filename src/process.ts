@@ -0,0 +1,68 @@
+import { spawn } from 'child_process';
+
+/** Keep this much of a failing process's stderr in error messages */
+const STDERR_TAIL_CHARS = 300;
+
+/** Never buffer more than this much output from one process */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/** Output of a finished child process */
+export interface ProcessResult {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Run a command without blocking the event loop, optionally piping `input`
+ * to its stdin. Rejects with the exit reason and the tail of stderr; the
+ * error's `code` is `ENOENT` when the binary is missing.
+ */
+export function runProcess(command: string, args: string[], timeoutMs: number, input?: Buffer): Promise<ProcessResult> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let outputBytes = 0;
+        let failure: string | null = null;
+
+        const timer = setTimeout(() => {
+            failure = `timed out after ${timeoutMs / 1000}s`;
+            child.kill('SIGKILL');
+        }, timeoutMs);
+
+        const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+            outputBytes += chunk.length;
+            if (outputBytes > MAX_OUTPUT_BYTES) {
+                failure = 'produced too much output';
+                child.kill('SIGKILL');
+                return;
+            }
+            chunks.push(chunk);
+        };
+        child.stdout.on('data', collect(stdout));
+        child.stderr.on('data', collect(stderr));
+
+        child.on('error', (err: NodeJS.ErrnoException) => {
+            clearTimeout(timer);
+            const error = new Error(`${command} ${err.message}`) as NodeJS.ErrnoException;
+            error.code = err.code;
+            reject(error);
+        });
+
+        child.on('close', (code, signal) => {
+            clearTimeout(timer);
+            const result = { stdout: Buffer.concat(stdout).toString('utf-8'), stderr: Buffer.concat(stderr).toString('utf-8') };
+            if (!failure && code === 0) {
+                resolve(result);
+                return;
+            }
+            const reason = failure ?? (signal ? `killed by ${signal}` : `exited with code ${code}`);
+            const tail = result.stderr.trim().slice(-STDERR_TAIL_CHARS);
+            reject(new Error(`${command} ${reason}${tail ? `: ${tail}` : ''}`));
+        });
+
+        // The process may exit before reading all input (e.g. on bad arguments)
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(input);
+    });
+}
@@ -0,0 +1,142 @@
+import { log } from 'crawlee';
+import sharp from 'sharp';
+import { detectScenesWithFfmpeg } from './ffmpeg.js';
+import { parseStoryboardSpec, getTile, downloadSheet, type StoryboardLevel } from './storyboard.js';
+
+/** ffmpeg `scene` score above which a keyframe starts a new scene */
+const FFMPEG_SCENE_THRESHOLD = 0.3;
+
+/** Share of a tile's blocks that must change for a storyboard scene change */
+const STORYBOARD_SCENE_THRESHOLD = 0.25;
+
+/** A block counts as changed when its mean brightness moves by more than this (0-255) */
+const BLOCK_CHANGE_LEVEL = 20;
+
+/** Tiles are compared on a grid of this many blocks */
+const GRID_COLS = 16;
+const GRID_ROWS = 9;
+
+/** Never download more storyboard sheets than this for one video */
+const MAX_SCENE_SHEETS = 40;
+
+/** A detected scene or slide change */
+export interface SceneChange {
+    seconds: number;
+    /** 0 (no change) to 1 (everything changed); scale depends on `method` */
+    score: number;
+    method: 'ffmpeg' | 'storyboard';
+}
+
+/**
+ * Pick the storyboard level to scan: the shortest interval whose sheets fit
+ * the download budget, else the level with the fewest sheets.
+ */
+function pickSceneLevel(levels: StoryboardLevel[]): StoryboardLevel | null {
+    const byInterval = [...levels].sort((a, b) => a.intervalMs - b.intervalMs || b.width - a.width);
+    return byInterval.find((l) => l.sheetCount <= MAX_SCENE_SHEETS)
+        ?? [...levels].sort((a, b) => a.sheetCount - b.sheetCount)[0]
+        ?? null;
+}
+
+/**
+ * Reduce every tile of a sheet to a grid of mean grey levels. Tiles that
+ * fall outside a partially filled sheet are skipped.
+ */
+async function sheetSignatures(sheet: Buffer, level: StoryboardLevel, tileCount: number): Promise<Float32Array[]> {
+    const { data, info } = await sharp(sheet).greyscale().raw().toBuffer({ resolveWithObject: true });
+    const signatures: Float32Array[] = [];
+
+    for (let t = 0; t < tileCount; t++) {
+        const x0 = (t % level.cols) * level.width;
+        const y0 = Math.floor(t / level.cols) * level.height;
+        if (x0 + level.width > info.width || y0 + level.height > info.height) break;
+
+        const grid = new Float32Array(GRID_COLS * GRID_ROWS);
+        for (let gy = 0; gy < GRID_ROWS; gy++) {
+            for (let gx = 0; gx < GRID_COLS; gx++) {
+                const bx = x0 + Math.floor((gx * level.width) / GRID_COLS);
+                const by = y0 + Math.floor((gy * level.height) / GRID_ROWS);
+                const bw = Math.max(1, Math.floor(level.width / GRID_COLS));
+                const bh = Math.max(1, Math.floor(level.height / GRID_ROWS));
+                let sum = 0;
+                for (let y = by; y < by + bh; y++) {
+                    for (let x = bx; x < bx + bw; x++) sum += data[(y * info.width + x) * info.channels];
+                }
+                grid[gy * GRID_COLS + gx] = sum / (bw * bh);
+            }
+        }
+        signatures.push(grid);
+    }
+    return signatures;
+}
+
+/** Share of grid blocks whose brightness changed noticeably between two tiles. */
+function changedShare(a: Float32Array, b: Float32Array): number {
+    let changed = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (Math.abs(a[i] - b[i]) > BLOCK_CHANGE_LEVEL) changed++;
+    }
+    return changed / a.length;
+}
+
+/**
+ * Compare consecutive storyboard tiles and report the ones that differ
+ * enough from their predecessor. Only local peaks are kept, so a cross-fade
+ * spread over two tiles yields one change.
+ */
+async function detectScenesFromStoryboard(
+    videoId: string,
+    storyboardSpec: string,
+    durationSeconds: number,
+    sheetCache: Map<string, Promise<Buffer>>,
+): Promise<SceneChange[]> {
+    const level = pickSceneLevel(parseStoryboardSpec(storyboardSpec, durationSeconds));
+    if (!level) return [];
+
+    const signatures: Float32Array[] = [];
+    const sheets = Math.min(level.sheetCount, MAX_SCENE_SHEETS);
+    for (let sheetIndex = 0; sheetIndex < sheets; sheetIndex++) {
+        const { url } = getTile(level, sheetIndex * level.tilesPerSheet);
+        const tileCount = Math.min(level.tilesPerSheet, level.count - sheetIndex * level.tilesPerSheet);
+        try {
+            const sheet = await downloadSheet(url, sheetCache);
+            signatures.push(...await sheetSignatures(sheet, level, tileCount));
+        } catch (err) {
+            log.warning(`Storyboard sheet ${sheetIndex} of ${videoId} unusable for scene detection: ${(err as Error).message}`);
+            break;
+        }
+    }
+
+    const scores = signatures.map((sig, i) => (i === 0 ? 0 : changedShare(signatures[i - 1], sig)));
+    const changes: SceneChange[] = [];
+    for (let i = 1; i < scores.length; i++) {
+        const isPeak = scores[i] >= (scores[i - 1] ?? 0) && scores[i] >= (scores[i + 1] ?? 0);
+        if (scores[i] >= STORYBOARD_SCENE_THRESHOLD && isPeak) {
+            changes.push({ seconds: (i * level.intervalMs) / 1000, score: Math.round(scores[i] * 100) / 100, method: 'storyboard' });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Detect scene and slide changes: ffmpeg scene scores over the real video
+ * when ffmpeg is available, otherwise differences between consecutive
+ * storyboard tiles. Returns an empty list when neither source is usable.
+ */
+export async function detectSceneChanges(
+    videoId: string,
+    storyboardSpec: string | null,
+    durationSeconds: number,
+    sheetCache: Map<string, Promise<Buffer>>,
+): Promise<SceneChange[]> {
+    const ffmpegScenes = await detectScenesWithFfmpeg(videoId, FFMPEG_SCENE_THRESHOLD);
+    if (ffmpegScenes) {
+        log.info(`ffmpeg found ${ffmpegScenes.length} scene changes in ${videoId}`);
+        return ffmpegScenes.map((s) => ({ ...s, method: 'ffmpeg' }));
+    }
+
+    if (!storyboardSpec) return [];
+    const changes = await detectScenesFromStoryboard(videoId, storyboardSpec, durationSeconds, sheetCache);
+    log.info(`Storyboard comparison found ${changes.length} scene changes in ${videoId}`);
+    return changes;
+}
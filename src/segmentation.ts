@@ -0,0 +1,195 @@
+import type { TranscriptSegment, TranscriptWord, SoundTagMode } from './types.js';
+import { formatTimestamp } from './transcript.js';
+
+/** Bracketed or parenthesised sound descriptions like `[Music]` or `(applause)`, plus music notes */
+const SOUND_TAG_REGEX = /\[[^\]]{1,40}\]|\((?:music|applause|laughter|laughs|cheering|inaudible|silence|noise)[^)]{0,20}\)|[♪♫]+/gi;
+
+/** Words that close a sentence: terminal punctuation, optionally followed by quotes/brackets */
+const SENTENCE_END_REGEX = /[.!?…]["'”’)\]]*$/;
+
+/** Pause between words (seconds) that always ends a sentence */
+const PAUSE_BREAK_SECONDS = 1.2;
+
+/** Hard limits for unpunctuated speech so a "sentence" never runs on forever */
+const MAX_SENTENCE_WORDS = 40;
+const MAX_SENTENCE_SECONDS = 20;
+
+/** Longest rolling-caption overlap (in words) checked between consecutive events */
+const MAX_OVERLAP_WORDS = 20;
+
+/**
+ * Rewrite a sound tag according to the configured mode.
+ * `normalize` turns `[Music]`, `(music playing)` and `♪` into `[music]`.
+ */
+function rewriteSoundTags(text: string, mode: SoundTagMode): string {
+    if (mode === 'keep') return text;
+    return text
+        .replace(SOUND_TAG_REGEX, (tag) => {
+            if (mode === 'strip') return ' ';
+            if (/^[♪♫]+$/.test(tag)) return ' [music] ';
+            const inner = tag.slice(1, -1).trim().toLowerCase().replace(/\s+/g, ' ');
+            return ` [${inner}] `;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Short dotted tokens like "e.g.", "Dr." or "vs." — only a sentence end
+ * when the next word starts with a capital.
+ */
+function isAbbreviation(word: string): boolean {
+    return /^(?:\p{L}\.){2,}$/u.test(word) || /^\p{L}{1,3}\.$/u.test(word);
+}
+
+/** Lower-case a word and drop punctuation so overlapping captions compare equal. */
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Number of leading words in `next` that repeat the trailing words of `prev`
+ * (rolling captions re-show the end of the previous line).
+ */
+function findOverlap(prev: string[], next: string[]): number {
+    const max = Math.min(prev.length, next.length, MAX_OVERLAP_WORDS);
+    for (let k = max; k > 0; k--) {
+        let same = true;
+        for (let i = 0; i < k; i++) {
+            if (normalizeWord(prev[prev.length - k + i]) !== normalizeWord(next[i])) {
+                same = false;
+                break;
+            }
+        }
+        if (same) return k;
+    }
+    return 0;
+}
+
+/**
+ * Expand a segment into timed words. Uses real word offsets when present,
+ * otherwise spreads the segment duration across words by character length.
+ */
+function toTimedWords(text: string, seg: TranscriptSegment, endSeconds: number, skipWords: number): TranscriptWord[] {
+    const tokens = text.split(/\s+/).filter(Boolean);
+
+    if (seg.words && seg.words.length === tokens.length + skipWords) {
+        return seg.words.slice(skipWords).map((w, i) => ({ ...w, text: tokens[i] }));
+    }
+
+    const span = Math.max(0.01, endSeconds - seg.startSeconds);
+    const totalChars = tokens.reduce((sum, t) => sum + t.length + 1, 0);
+    const words: TranscriptWord[] = [];
+    let cursor = seg.startSeconds;
+    for (const token of tokens) {
+        const length = (span * (token.length + 1)) / totalChars;
+        words.push({ text: token, startSeconds: cursor, endSeconds: cursor + length });
+        cursor += length;
+    }
+    return words;
+}
+
+/** Round to centiseconds like the raw segments. */
+function round(seconds: number): number {
+    return Math.round(seconds * 100) / 100;
+}
+
+/** Build a segment from a run of words. */
+function toSegment(words: TranscriptWord[], keepWords: boolean): TranscriptSegment {
+    const start = words[0].startSeconds;
+    const end = words[words.length - 1].endSeconds;
+    const segment: TranscriptSegment = {
+        text: words.map((w) => w.text).join(' '),
+        startSeconds: round(start),
+        durationSeconds: round(Math.max(0, end - start)),
+        startFormatted: formatTimestamp(start),
+    };
+    if (keepWords) {
+        segment.words = words.map((w) => ({ text: w.text, startSeconds: round(w.startSeconds), endSeconds: round(w.endSeconds) }));
+    }
+    return segment;
+}
+
+/**
+ * Re-segment caption events into real sentences.
+ *
+ *  1. Sound tags are kept, normalised (`[music]`) or stripped per `soundTags`
+ *  2. Rolling-caption repeats (the start of an event repeating the end of the
+ *     previous one) and exact duplicate lines are removed
+ *  3. Words are re-timed (real offsets when available, else interpolated)
+ *     and regrouped into sentences at terminal punctuation, or at long
+ *     pauses / length limits when the captions have no punctuation
+ *
+ * Sound tags always become segments of their own. Word timing is kept on
+ * the output when the raw segments carried it.
+ */
+export function resegmentTranscript(segments: TranscriptSegment[], soundTags: SoundTagMode): TranscriptSegment[] {
+    const keepWords = segments.some((s) => s.words && s.words.length > 0);
+    const stream: Array<TranscriptWord & { isTag: boolean }> = [];
+    let prevTokens: string[] = [];
+
+    for (const [i, seg] of segments.entries()) {
+        const text = rewriteSoundTags(seg.text.replace(/\s+/g, ' ').trim(), soundTags);
+        if (!text) continue;
+
+        const tokens = text.split(' ');
+        const overlap = findOverlap(prevTokens, tokens);
+        if (overlap === tokens.length) continue; // exact repeat of the previous line
+        const remaining = tokens.slice(overlap).join(' ');
+
+        const next = segments[i + 1];
+        let end = seg.startSeconds + seg.durationSeconds;
+        if (next && next.startSeconds > seg.startSeconds && next.startSeconds < end) end = next.startSeconds;
+
+        // Sound tags are matched per token group so "[music]" stays one unit
+        const pieces = remaining.split(/(\[[^\]]+\])/).map((p) => p.trim()).filter(Boolean);
+        const words = toTimedWords(pieces.join(' '), seg, end, overlap);
+        let cursor = 0;
+        for (const piece of pieces) {
+            const count = piece.split(' ').length;
+            const isTag = /^\[[^\]]+\]$/.test(piece);
+            const slice = words.slice(cursor, cursor + count);
+            cursor += count;
+            if (slice.length === 0) continue;
+            if (isTag) {
+                stream.push({ text: piece, startSeconds: slice[0].startSeconds, endSeconds: slice[slice.length - 1].endSeconds, isTag });
+            } else {
+                for (const w of slice) stream.push({ ...w, isTag: false });
+            }
+        }
+
+        prevTokens = tokens;
+    }
+
+    const sentences: TranscriptSegment[] = [];
+    let current: TranscriptWord[] = [];
+    const flush = () => {
+        if (current.length > 0) sentences.push(toSegment(current, keepWords));
+        current = [];
+    };
+
+    for (const [i, word] of stream.entries()) {
+        if (word.isTag) {
+            flush();
+            sentences.push(toSegment([word], false));
+            continue;
+        }
+
+        const prev = current[current.length - 1];
+        if (prev && word.startSeconds - prev.endSeconds > PAUSE_BREAK_SECONDS) {
+            flush();
+        }
+
+        current.push({ text: word.text, startSeconds: word.startSeconds, endSeconds: word.endSeconds });
+
+        const tooLong = current.length >= MAX_SENTENCE_WORDS
+            || word.endSeconds - current[0].startSeconds >= MAX_SENTENCE_SECONDS;
+        const nextWord = stream[i + 1];
+        const endsSentence = SENTENCE_END_REGEX.test(word.text)
+            && !(isAbbreviation(word.text) && nextWord && !nextWord.isTag && /^\p{Ll}/u.test(nextWord.text));
+        if (endsSentence || tooLong) flush();
+    }
+    flush();
+
+    return sentences;
+}
@@ -0,0 +1,267 @@
+import { Actor } from 'apify';
+import { GotScrapingHttpClient, log, Session, SessionPool, type HttpRequest, type ProxyConfiguration } from 'crawlee';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ProxyInput } from './types.js';
+
+/** Cookies from the input and the consent cookie are set for this origin */
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+
+/**
+ * Answers the EU cookie consent dialog with "reject all", so YouTube serves
+ * the watch page instead of redirecting to consent.youtube.com.
+ */
+const CONSENT_COOKIE: SessionCookie = { name: 'SOCS', value: 'CAI', domain: '.youtube.com', path: '/' };
+
+/** Statuses that never carry a body (the Response constructor rejects one) */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** A cookie in the shape crawlee sessions accept */
+interface SessionCookie {
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    /** Unix time in seconds; session cookie when unset */
+    expires?: number;
+    secure?: boolean;
+    httpOnly?: boolean;
+}
+
+/** Cookie as exported by browser extensions (EditThisCookie, Cookie-Editor) */
+interface ExportedCookie {
+    name?: string;
+    value?: string;
+    domain?: string;
+    path?: string;
+    expirationDate?: number;
+    expires?: number;
+    secure?: boolean;
+    httpOnly?: boolean;
+}
+
+const httpClient = new GotScrapingHttpClient();
+
+let proxyConfiguration: ProxyConfiguration | undefined;
+let userCookies: SessionCookie[] = [];
+let cookieFile: string | null = null;
+let sessionPool: SessionPool | null = null;
+let session: Session | null = null;
+let proxyUrl: string | undefined;
+let rotation: Promise<boolean> | null = null;
+
+/**
+ * Parse the `cookies` input: a `Cookie` header (`name=value; ...`), a JSON
+ * array exported by a browser extension, or a Netscape `cookies.txt` file
+ * (as used by yt-dlp and curl). Header cookies are set for `.youtube.com`.
+ */
+export function parseCookies(value: string): SessionCookie[] {
+    const trimmed = value.trim();
+    if (!trimmed) return [];
+
+    if (trimmed.startsWith('[')) {
+        let exported: ExportedCookie[];
+        try {
+            exported = JSON.parse(trimmed) as ExportedCookie[];
+        } catch (err) {
+            throw new Error(`Invalid input "cookies": the JSON cookie export could not be parsed (${(err as Error).message})`);
+        }
+        return exported
+            .filter((c) => c.name)
+            .map((c) => ({
+                name: c.name!,
+                value: c.value ?? '',
+                domain: c.domain ?? '.youtube.com',
+                path: c.path ?? '/',
+                expires: c.expirationDate ?? c.expires,
+                secure: c.secure,
+                httpOnly: c.httpOnly,
+            }));
+    }
+
+    if (trimmed.includes('\t')) {
+        const cookies: SessionCookie[] = [];
+        for (const rawLine of trimmed.split('\n')) {
+            const httpOnly = rawLine.startsWith('#HttpOnly_');
+            const line = httpOnly ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+            if (!line.trim() || line.startsWith('#')) continue;
+            const cols = line.replace(/\r$/, '').split('\t');
+            if (cols.length < 7) continue;
+            const expires = parseInt(cols[4], 10);
+            cookies.push({
+                name: cols[5],
+                value: cols[6],
+                domain: cols[0],
+                path: cols[2] || '/',
+                expires: expires > 0 ? expires : undefined,
+                secure: cols[3].toUpperCase() === 'TRUE',
+                httpOnly,
+            });
+        }
+        return cookies;
+    }
+
+    return trimmed
+        .split(';')
+        .map((pair) => pair.trim())
+        .filter((pair) => pair.includes('='))
+        .map((pair) => {
+            const index = pair.indexOf('=');
+            return { name: pair.slice(0, index).trim(), value: pair.slice(index + 1).trim(), domain: '.youtube.com', path: '/' };
+        });
+}
+
+/** Write cookies as a Netscape cookies.txt file for yt-dlp. */
+function toNetscapeCookieFile(cookies: SessionCookie[]): string {
+    const lines = cookies.map((c) => {
+        const domain = c.domain ?? '.youtube.com';
+        return [
+            `${c.httpOnly ? '#HttpOnly_' : ''}${domain}`,
+            domain.startsWith('.') ? 'TRUE' : 'FALSE',
+            c.path ?? '/',
+            c.secure ? 'TRUE' : 'FALSE',
+            String(Math.round(c.expires ?? 0)),
+            c.name,
+            c.value,
+        ].join('\t');
+    });
+    return ['# Netscape HTTP Cookie File', ...lines, ''].join('\n');
+}
+
+/** A fresh session: new id (and so a new proxy IP), the consent cookie and the input cookies. */
+function createSession(pool: SessionPool): Session {
+    const fresh = new Session({ sessionPool: pool, maxUsageCount: Infinity });
+    fresh.setCookies([CONSENT_COOKIE, ...userCookies], YOUTUBE_ORIGIN);
+    return fresh;
+}
+
+/**
+ * Set up the proxy and cookies used for every request of the run. Call once
+ * before scraping; until then requests go out directly without cookies.
+ */
+export async function configureHttpSession(proxyInput: ProxyInput | undefined, cookies: string | undefined): Promise<void> {
+    userCookies = cookies ? parseCookies(cookies) : [];
+    if (userCookies.length > 0) {
+        log.info(`Using ${userCookies.length} cookie(s) from the input`);
+        cookieFile = join(tmpdir(), `youtube-cookies-${process.pid}.txt`);
+        await writeFile(cookieFile, toNetscapeCookieFile(userCookies), { mode: 0o600 });
+    }
+
+    proxyConfiguration = proxyInput ? await Actor.createProxyConfiguration(proxyInput) : undefined;
+    // A single live session: retiring it makes the pool create the next one
+    sessionPool = await SessionPool.open({
+        maxPoolSize: 1,
+        createSessionFunction: createSession,
+        persistenceOptions: { enable: false },
+    });
+    session = await sessionPool.getSession();
+    proxyUrl = await proxyConfiguration?.newUrl(session.id);
+    if (proxyUrl) log.info('Routing requests through the configured proxy');
+}
+
+/**
+ * Switch to a new session (new proxy IP and fresh cookies) after YouTube
+ * blocked `blockedSessionId`, the session the failed request went out on.
+ * Requests that were blocked on the same session share one rotation; when
+ * the session has already been replaced, nothing happens. Returns false when
+ * there is no proxy, since a new session on the same IP would not help.
+ */
+export async function rotateSession(reason: string, blockedSessionId: string | null): Promise<boolean> {
+    if (!proxyConfiguration || !sessionPool || !session) return false;
+    if (rotation) return rotation;
+    if (blockedSessionId !== session.id) return true;
+
+    const pool = sessionPool;
+    const config = proxyConfiguration;
+    const blocked = session;
+    rotation = (async () => {
+        blocked.retire();
+        session = await pool.getSession();
+        proxyUrl = await config.newUrl(session.id);
+        log.warning(`Rotated to a new proxy session (${reason})`);
+        return true;
+    })().finally(() => {
+        rotation = null;
+    });
+    return rotation;
+}
+
+/**
+ * ID of the current session, or null before `configureHttpSession`. Changes
+ * whenever the session rotates, so it can key anything tied to the proxy IP.
+ */
+export function getSessionId(): string | null {
+    return session?.id ?? null;
+}
+
+/** Whether the input provided cookies (needed for age-restricted videos). */
+export function hasUserCookies(): boolean {
+    return userCookies.length > 0;
+}
+
+/** Extra yt-dlp arguments for the current proxy and the input cookies. */
+export function getYtDlpArgs(): string[] {
+    return [
+        ...(proxyUrl ? ['--proxy', proxyUrl] : []),
+        ...(cookieFile ? ['--cookies', cookieFile] : []),
+    ];
+}
+
+/**
+ * Extra ffmpeg input arguments for reading a stream URL. Stream URLs are
+ * tied to the IP that resolved them, so ffmpeg must use the same proxy.
+ */
+export function getFfmpegInputArgs(): string[] {
+    return proxyUrl ? ['-http_proxy', proxyUrl] : [];
+}
+
+/** Send a request through the proxy with got-scraping, as a fetch `Response`. */
+async function sendViaProxy(url: string, init: RequestInit, headers: Headers, viaProxy: string): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase() as NonNullable<HttpRequest['method']>;
+    const res = await httpClient.sendRequest({
+        url,
+        method,
+        headers: Object.fromEntries(headers),
+        body: typeof init.body === 'string' ? init.body : undefined,
+        proxyUrl: viaProxy,
+        responseType: 'buffer',
+        throwHttpErrors: false,
+        followRedirect: init.redirect !== 'manual',
+        useHeaderGenerator: false,
+        signal: init.signal ?? undefined,
+    });
+
+    const responseHeaders = new Headers();
+    for (const [name, value] of Object.entries(res.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            responseHeaders.append(name, item);
+        }
+    }
+    const hasBody = method !== 'HEAD' && !NULL_BODY_STATUSES.has(res.statusCode);
+    const response = new Response(hasBody ? new Uint8Array(res.body) : null, {
+        status: res.statusCode,
+        statusText: res.statusMessage,
+        headers: responseHeaders,
+    });
+    Object.defineProperty(response, 'url', { value: res.url });
+    return response;
+}
+
+/**
+ * Send one request with the session's cookies, through the proxy when one
+ * is configured, and keep any cookies the response sets.
+ */
+export async function sendRequest(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    const cookie = session?.getCookieString(url);
+    if (cookie && !headers.has('cookie')) headers.set('cookie', cookie);
+
+    const res = proxyUrl
+        ? await sendViaProxy(url, init, headers, proxyUrl)
+        : await fetch(url, { ...init, headers });
+
+    const setCookies = res.headers.getSetCookie();
+    if (setCookies.length > 0) session?.setCookiesFromResponse({ url: res.url || url, headers: { 'set-cookie': setCookies } });
+    return res;
+}
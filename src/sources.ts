@@ -0,0 +1,199 @@
+import { log } from 'crawlee';
+import { extractVideoId, extractClipRange } from './transcript.js';
+import { extractInnertubeConfig, innertubeRequest } from './innertube.js';
+import { YOUTUBE_HEADERS, extractInitialData, findAllByKey } from './utils.js';
+import { fetchWithRetry } from './http.js';
+import type { ClipRange } from './types.js';
+
+/** A single entry from the input, classified by what it points at */
+export interface VideoSource {
+    kind: 'video' | 'playlist' | 'channel';
+    /** Video ID, playlist ID, or channel path (`channel/UC...`, `@handle`, `c/name`, `user/name`) */
+    id: string;
+    url: string;
+}
+
+/** A video to process, with the input entry it was expanded from */
+export interface ResolvedVideo {
+    videoId: string;
+    sourceUrl: string;
+    /** Clip range from the video URL's `t=` / `start=` / `end=` parameters */
+    urlClip: { startSeconds?: number; endSeconds?: number };
+}
+
+/** Path prefixes that identify a channel page */
+const CHANNEL_PREFIXES = new Set(['channel', 'c', 'user']);
+
+/** Safety cap on continuation pages fetched for a single playlist */
+const MAX_CONTINUATION_PAGES = 50;
+
+/**
+ * Classify an input URL or ID as a video, playlist, or channel.
+ * Watch URLs that also carry `list=` are treated as the single video.
+ */
+export function parseSource(urlOrId: string): VideoSource {
+    const trimmed = urlOrId.trim();
+
+    try {
+        const url = new URL(trimmed);
+        const pathParts = url.pathname.split('/').filter(Boolean);
+        const first = pathParts[0] ?? '';
+
+        if (!url.searchParams.has('v')) {
+            const listId = url.searchParams.get('list');
+            if (listId) {
+                return { kind: 'playlist', id: listId, url: trimmed };
+            }
+            if (first.startsWith('@')) {
+                return { kind: 'channel', id: first, url: trimmed };
+            }
+            if (CHANNEL_PREFIXES.has(first.toLowerCase()) && pathParts[1]) {
+                return { kind: 'channel', id: `${first}/${pathParts[1]}`, url: trimmed };
+            }
+        }
+    } catch {
+        // not a URL — fall through to video ID handling
+    }
+
+    return { kind: 'video', id: extractVideoId(trimmed), url: trimmed };
+}
+
+/**
+ * Combine a video's URL clip parameters with the input's `startSeconds` /
+ * `endSeconds`; the URL wins. An end at or before the start is ignored.
+ * Returns null when the whole video is to be processed.
+ */
+export function buildClipRange(
+    urlClip: ResolvedVideo['urlClip'],
+    startSeconds: number | undefined,
+    endSeconds: number | undefined,
+): ClipRange | null {
+    const start = Math.max(0, urlClip.startSeconds ?? startSeconds ?? 0);
+    let end = urlClip.endSeconds ?? endSeconds ?? null;
+    if (end !== null && end <= start) {
+        log.warning(`Ignoring clip end ${end}s, it is not after the start (${start}s)`);
+        end = null;
+    }
+    return start > 0 || end !== null ? { startSeconds: start, endSeconds: end } : null;
+}
+
+/**
+ * Expand a list of input URLs into unique videos. Playlists and channels
+ * are expanded up to `maxPerSource` videos each. The same video with
+ * different clip parameters (`t=`, `start=`, `end=`) is kept once per clip;
+ * exact duplicates are logged and skipped, as are entries that cannot be
+ * parsed or expanded.
+ */
+export async function resolveVideos(inputs: string[], maxPerSource: number): Promise<ResolvedVideo[]> {
+    const resolved: ResolvedVideo[] = [];
+    const seen = new Set<string>();
+
+    for (const input of inputs) {
+        let videoIds: string[];
+        let urlClip: ResolvedVideo['urlClip'] = {};
+        try {
+            const source = parseSource(input);
+            if (source.kind === 'video') urlClip = extractClipRange(input);
+            videoIds = source.kind === 'video' ? [source.id] : await expandSource(source, maxPerSource);
+            if (source.kind !== 'video') {
+                log.info(`Expanded ${source.kind} ${source.id} into ${videoIds.length} videos`);
+            }
+        } catch (err) {
+            log.warning(`Skipping input "${input}": ${(err as Error).message}`);
+            continue;
+        }
+
+        for (const videoId of videoIds) {
+            const key = `${videoId}:${urlClip.startSeconds ?? ''}-${urlClip.endSeconds ?? ''}`;
+            if (seen.has(key)) {
+                log.info(`Skipping duplicate video ${videoId} from "${input}"`);
+                continue;
+            }
+            seen.add(key);
+            resolved.push({ videoId, sourceUrl: input, urlClip });
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * Expand a playlist or channel into its video IDs.
+ * Channels are expanded through their uploads playlist (`UC...` -> `UU...`).
+ */
+async function expandSource(source: VideoSource, maxVideos: number): Promise<string[]> {
+    if (source.kind === 'channel') {
+        const channelId = await resolveChannelId(source.id);
+        return expandPlaylist(`UU${channelId.slice(2)}`, maxVideos);
+    }
+    return expandPlaylist(source.id, maxVideos);
+}
+
+/**
+ * Resolve a channel path to its `UC...` channel ID. Handles and custom URLs
+ * require fetching the channel page.
+ */
+async function resolveChannelId(channelPath: string): Promise<string> {
+    const direct = channelPath.match(/^channel\/(UC[\w-]{22})$/);
+    if (direct) return direct[1];
+
+    const res = await fetchWithRetry(`https://www.youtube.com/${channelPath}`, { headers: YOUTUBE_HEADERS });
+    if (!res.ok) {
+        throw new Error(`Channel page returned status ${res.status}`);
+    }
+    const html = await res.text();
+
+    const match = html.match(/"externalId"\s*:\s*"(UC[\w-]{22})"/)
+        ?? html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/)
+        ?? html.match(/"channelId"\s*:\s*"(UC[\w-]{22})"/);
+    if (!match) {
+        throw new Error(`Could not find channel ID for ${channelPath}`);
+    }
+    return match[1];
+}
+
+/**
+ * Collect video IDs from a playlist page, following InnerTube `browse`
+ * continuations until `maxVideos` is reached or the playlist ends.
+ */
+async function expandPlaylist(playlistId: string, maxVideos: number): Promise<string[]> {
+    const res = await fetchWithRetry(`https://www.youtube.com/playlist?list=${playlistId}`, { headers: YOUTUBE_HEADERS });
+    if (!res.ok) {
+        throw new Error(`Playlist page returned status ${res.status}`);
+    }
+    const html = await res.text();
+
+    const initialData = extractInitialData(html);
+    if (!initialData) {
+        throw new Error('Could not find ytInitialData in playlist page');
+    }
+
+    const videoIds: string[] = [];
+    const addVideos = (data: unknown) => {
+        for (const renderer of findAllByKey(data, 'playlistVideoRenderer')) {
+            const id = (renderer as { videoId?: string }).videoId;
+            if (id && !videoIds.includes(id)) videoIds.push(id);
+        }
+    };
+
+    addVideos(initialData);
+    let token = findContinuationToken(initialData);
+    const config = extractInnertubeConfig(html);
+
+    for (let page = 0; token && config && videoIds.length < maxVideos && page < MAX_CONTINUATION_PAGES; page++) {
+        const data = await innertubeRequest<Record<string, unknown>>('browse', config, { continuation: token });
+        addVideos(data);
+        token = findContinuationToken(data);
+    }
+
+    return videoIds.slice(0, maxVideos);
+}
+
+/** Find the next-page continuation token in a browse response, if any. */
+function findContinuationToken(data: unknown): string | null {
+    for (const command of findAllByKey(data, 'continuationCommand')) {
+        const token = (command as { token?: string }).token;
+        if (token) return token;
+    }
+    return null;
+}
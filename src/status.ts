@@ -0,0 +1,45 @@
+import type { ItemStatus, StageErrorCode, StageName, StageResult } from './types.js';
+
+/** An error with a known cause, so the failing stage can report its code */
+export class ScrapeError extends Error {
+    readonly code: StageErrorCode;
+
+    constructor(code: StageErrorCode, message: string) {
+        super(message);
+        this.name = 'ScrapeError';
+        this.code = code;
+    }
+}
+
+/**
+ * Error code for anything thrown by a stage. `ScrapeError`s carry their own
+ * code; other errors are classified from their message.
+ */
+export function getErrorCode(err: unknown): StageErrorCode {
+    if (err instanceof ScrapeError) return err.code;
+    const message = err instanceof Error ? err.message : String(err);
+    if (/\b429\b|too many requests/i.test(message)) return 'RATE_LIMITED';
+    if (/fetch failed|socket|timed? ?out|aborted|ECONN\w+|ENOTFOUND|EAI_AGAIN/i.test(message)) return 'NETWORK_ERROR';
+    return 'UNKNOWN';
+}
+
+/** Stage result for a stage that threw. */
+export function failedStage(stage: StageName, err: unknown): StageResult {
+    return {
+        stage,
+        status: 'failed',
+        code: getErrorCode(err),
+        message: err instanceof Error ? err.message : String(err),
+    };
+}
+
+/**
+ * Overall status of a video from its stages: `failed` when the metadata
+ * stage failed (the item only holds placeholders), `partial` when any other
+ * stage failed or fell back, `ok` otherwise.
+ */
+export function getItemStatus(stages: StageResult[]): ItemStatus {
+    if (stages.some((s) => s.stage === 'metadata' && s.status === 'failed')) return 'failed';
+    if (stages.some((s) => s.status === 'failed' || s.status === 'partial')) return 'partial';
+    return 'ok';
+}
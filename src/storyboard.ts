@@ -0,0 +1,221 @@
+import sharp from 'sharp';
+import { YOUTUBE_HEADERS } from './utils.js';
+import { fetchWithRetry } from './http.js';
+
+/** Pixel rectangle of one tile inside a storyboard sheet */
+export interface TileRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/** One storyboard quality level, e.g. 160x90 tiles every 2s in 5x5 sheets */
+export interface StoryboardLevel {
+    /** Level index, substituted for `$L` in the base URL */
+    index: number;
+    width: number;
+    height: number;
+    /** Total number of tiles across all sheets */
+    count: number;
+    cols: number;
+    rows: number;
+    /** Time between tiles; derived from the duration when the spec says 0 */
+    intervalMs: number;
+    /** Sheet name template, e.g. `M$M` or `default` */
+    name: string;
+    sigh: string;
+    tilesPerSheet: number;
+    sheetCount: number;
+    /** URL template with `$L` already substituted; `$N` still holds the sheet name */
+    urlTemplate: string;
+}
+
+/** A single tile resolved to its sheet URL and pixel rectangle */
+export interface StoryboardTile {
+    url: string;
+    tileRect: TileRect;
+    timestampMs: number;
+    level: number;
+}
+
+/** How to pick between storyboard levels: sharpest image, or closest in time */
+export type StoryboardPreference = 'resolution' | 'precision';
+
+/**
+ * Parse a YouTube storyboard spec (`playerStoryboardSpecRenderer.spec`) into
+ * its quality levels.
+ *
+ * Spec format: `baseUrl|level0|level1|...`, where the base URL contains
+ * `$L` (level index) and `$N` (sheet name) placeholders, and each level is
+ * `width#height#count#cols#rows#intervalMs#name#sigh`. A name like `M$M`
+ * gets the sheet index for `$M`. Level 0 is usually a single `default` sheet
+ * with interval 0, so its interval is derived from `durationSeconds`.
+ */
+export function parseStoryboardSpec(spec: string, durationSeconds = 0): StoryboardLevel[] {
+    const [baseUrl, ...levelSpecs] = spec.split('|');
+    if (!baseUrl || !/^https?:\/\//.test(baseUrl)) return [];
+
+    const levels: StoryboardLevel[] = [];
+    for (const [index, levelSpec] of levelSpecs.entries()) {
+        const parts = levelSpec.split('#');
+        if (parts.length < 8) continue;
+
+        const [width, height, count, cols, rows, interval] = parts.slice(0, 6).map((p) => parseInt(p, 10));
+        const name = parts[6];
+        const sigh = parts.slice(7).join('#');
+        if (!width || !height || !count || !cols || !rows) continue;
+
+        const intervalMs = interval > 0
+            ? interval
+            : durationSeconds > 0 ? Math.round((durationSeconds * 1000) / count) : 0;
+        if (!intervalMs) continue;
+
+        const tilesPerSheet = cols * rows;
+        levels.push({
+            index,
+            width,
+            height,
+            count,
+            cols,
+            rows,
+            intervalMs,
+            name,
+            sigh,
+            tilesPerSheet,
+            sheetCount: Math.ceil(count / tilesPerSheet),
+            urlTemplate: baseUrl.replace('$L', String(index)),
+        });
+    }
+    return levels;
+}
+
+/** Resolve tile `i` of a level to its sheet URL and rectangle. */
+export function getTile(level: StoryboardLevel, i: number): StoryboardTile {
+    const sheetIndex = Math.floor(i / level.tilesPerSheet);
+    const posInSheet = i % level.tilesPerSheet;
+    const col = posInSheet % level.cols;
+    const row = Math.floor(posInSheet / level.cols);
+
+    let url = level.urlTemplate.replace('$N', level.name.replace('$M', String(sheetIndex)));
+    if (level.sigh && !url.includes('sigh=')) {
+        url += (url.includes('?') ? '&' : '?') + `sigh=${level.sigh}`;
+    }
+
+    return {
+        url,
+        tileRect: { x: col * level.width, y: row * level.height, w: level.width, h: level.height },
+        timestampMs: i * level.intervalMs,
+        level: level.index,
+    };
+}
+
+/**
+ * Pick the level to sample from:
+ *  - `resolution`: the smallest level at least `targetWidth` wide (the widest
+ *    level when no target is given or none is wide enough)
+ *  - `precision`: the level with the shortest interval, wider on ties
+ */
+export function selectStoryboardLevel(
+    levels: StoryboardLevel[],
+    preference: StoryboardPreference,
+    targetWidth?: number,
+): StoryboardLevel | null {
+    if (levels.length === 0) return null;
+
+    if (preference === 'precision') {
+        return [...levels].sort((a, b) => a.intervalMs - b.intervalMs || b.width - a.width)[0];
+    }
+
+    const byWidth = [...levels].sort((a, b) => a.width - b.width);
+    if (targetWidth) {
+        const match = byWidth.find((l) => l.width >= targetWidth);
+        if (match) return match;
+    }
+    return byWidth[byWidth.length - 1];
+}
+
+/**
+ * Find the tile nearest to a timestamp. In `resolution` mode only the
+ * selected level is sampled; in `precision` mode every level is checked and
+ * the tile closest in time wins (the wider one on ties), so a coarse but
+ * sharp level can still be used where its tile happens to be nearest.
+ */
+export function findNearestTile(
+    levels: StoryboardLevel[],
+    seconds: number,
+    preference: StoryboardPreference,
+    targetWidth?: number,
+): StoryboardTile | null {
+    const selected = selectStoryboardLevel(levels, preference, targetWidth);
+    if (!selected) return null;
+
+    const candidates = preference === 'precision' ? levels : [selected];
+    const targetMs = seconds * 1000;
+    let best: { tile: StoryboardTile; dist: number; width: number } | null = null;
+
+    for (const level of candidates) {
+        const i = Math.max(0, Math.min(level.count - 1, Math.round(targetMs / level.intervalMs)));
+        const tile = getTile(level, i);
+        const dist = Math.abs(tile.timestampMs - targetMs);
+        if (!best || dist < best.dist || (dist === best.dist && level.width > best.width)) {
+            best = { tile, dist, width: level.width };
+        }
+    }
+    return best?.tile ?? null;
+}
+
+/** A cropped storyboard frame, plus its optional upscaled copy */
+export interface CroppedTile {
+    image: Buffer;
+    upscaled: Buffer | null;
+}
+
+/**
+ * Download a storyboard sprite sheet. Sheets are shared by many tiles, so
+ * callers pass a cache (keyed by URL) that lives for one video.
+ */
+export function downloadSheet(url: string, cache: Map<string, Promise<Buffer>>): Promise<Buffer> {
+    let pending = cache.get(url);
+    if (!pending) {
+        pending = (async () => {
+            const res = await fetchWithRetry(url, { headers: YOUTUBE_HEADERS });
+            if (!res.ok) {
+                throw new Error(`Storyboard sheet returned status ${res.status}`);
+            }
+            return Buffer.from(await res.arrayBuffer());
+        })();
+        cache.set(url, pending);
+    }
+    return pending;
+}
+
+/**
+ * Crop one tile out of a storyboard sheet as a standalone JPEG. With
+ * `upscale > 1`, also produce a Lanczos-upscaled copy (storyboard tiles are
+ * small, e.g. 160x90). The rectangle is clamped to the sheet, because the
+ * last sheet of a video is often only partially filled.
+ */
+export async function cropTile(sheet: Buffer, rect: TileRect, upscale: number): Promise<CroppedTile> {
+    const meta = await sharp(sheet).metadata();
+    const sheetWidth = meta.width ?? 0;
+    const sheetHeight = meta.height ?? 0;
+
+    if (rect.x >= sheetWidth || rect.y >= sheetHeight) {
+        throw new Error(`Tile ${rect.x},${rect.y} lies outside the ${sheetWidth}x${sheetHeight} sheet`);
+    }
+
+    const width = Math.min(rect.w, sheetWidth - rect.x);
+    const height = Math.min(rect.h, sheetHeight - rect.y);
+
+    const image = await sharp(sheet).extract({ left: rect.x, top: rect.y, width, height }).jpeg({ quality: 90 }).toBuffer();
+    const upscaled = upscale > 1
+        ? await sharp(image)
+            .resize(Math.round(width * upscale), Math.round(height * upscale), { kernel: 'lanczos3' })
+            .sharpen()
+            .jpeg({ quality: 90 })
+            .toBuffer()
+        : null;
+
+    return { image, upscaled };
+}
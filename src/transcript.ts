@@ -1,6 +1,8 @@
 import { log } from 'crawlee';
-import type { TranscriptSegment } from './types.js';
-import { fetchWithRetry, YOUTUBE_HEADERS, extractPlayerResponse } from './utils.js';
+import type { TranscriptSegment, TranscriptWord, TranscriptResult, CaptionTrackInfo } from './types.js';
+import type { CaptionTrack, PlayerResponse } from './watchPage.js';
+import { fetchWithRetry } from './http.js';
+import { ScrapeError } from './status.js';
 
 /** Route keywords that are never a video ID */
 const ROUTE_KEYWORDS = new Set(['watch', 'embed', 'shorts', 'live', 'v', 'channel', 'playlist']);
@@ -37,6 +39,37 @@ export function extractVideoId(urlOrId: string): string {
     throw new Error(`Could not extract video ID from: ${trimmed}`);
 }
 
+/** Parse a URL time parameter (`754`, `754s`, `12m34s`, `1h2m3s`) into seconds. */
+function parseUrlTime(value: string): number | null {
+    if (/^\d+(?:\.\d+)?s?$/.test(value)) return parseFloat(value);
+    const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value);
+    if (!match || !value) return null;
+    return parseInt(match[1] ?? '0', 10) * 3600 + parseInt(match[2] ?? '0', 10) * 60 + parseInt(match[3] ?? '0', 10);
+}
+
+/**
+ * Read a clip range from a video URL: the start from `t=` or `start=` (also
+ * `#t=`), the end from `end=`. Missing or invalid values are left out.
+ */
+export function extractClipRange(urlOrId: string): { startSeconds?: number; endSeconds?: number } {
+    let url: URL;
+    try {
+        url = new URL(urlOrId.trim());
+    } catch {
+        return {};
+    }
+
+    const hash = new URLSearchParams(url.hash.slice(1));
+    const start = url.searchParams.get('t') ?? url.searchParams.get('start') ?? hash.get('t');
+    const end = url.searchParams.get('end');
+    const startSeconds = start ? parseUrlTime(start) : null;
+    const endSeconds = end ? parseUrlTime(end) : null;
+    return {
+        ...(startSeconds !== null ? { startSeconds } : {}),
+        ...(endSeconds !== null ? { endSeconds } : {}),
+    };
+}
+
 /**
  * Format seconds to HH:MM:SS or MM:SS
  */
@@ -51,116 +84,255 @@ export function formatTimestamp(totalSeconds: number): string {
     return `${m}:${String(s).padStart(2, '0')}`;
 }
 
-interface CaptionTrack {
-    baseUrl: string;
-    languageCode: string;
-    name?: { simpleText?: string };
-    kind?: string;
+/**
+ * Parse `h:mm:ss`, `m:ss` or plain seconds into seconds. Returns null for
+ * anything else.
+ */
+export function parseTimestamp(value: string): number | null {
+    const match = /^\s*(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:\.\d+)?)\s*$/.exec(value);
+    if (!match) return null;
+    const hours = match[1] ? parseInt(match[1], 10) : 0;
+    const minutes = match[2] ? parseInt(match[2], 10) : 0;
+    return hours * 3600 + minutes * 60 + parseFloat(match[3]);
+}
+
+/** Shape of a json3 timedtext response */
+export interface Json3Captions {
+    events?: Array<{
+        tStartMs?: number;
+        dDurationMs?: number;
+        segs?: Array<{ utf8?: string; tOffsetMs?: number }>;
+    }>;
 }
 
 /**
- * Fetch transcript by scraping the watch page for caption track URLs,
- * then fetching the timedtext XML directly.
- *
- * This avoids third-party libraries that break when YouTube updates their player.
+ * List the caption tracks available in a player response.
  */
-export async function fetchTranscript(
-    videoId: string,
-    language: string = 'en',
-): Promise<TranscriptSegment[]> {
-    log.info(`Fetching transcript for video ${videoId} (lang: ${language})`);
+export function getCaptionTracks(player: PlayerResponse | null): CaptionTrack[] {
+    return player?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+}
 
-    try {
-        // Step 1: Fetch watch page to find caption tracks
-        const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
-        const res = await fetchWithRetry(watchUrl, { headers: YOUTUBE_HEADERS });
-        if (!res.ok) {
-            log.warning(`Watch page returned status ${res.status}`);
-            return [];
-        }
-        const html = await res.text();
+/** Display name of a caption track, e.g. "English (auto-generated)". */
+function getTrackName(track: CaptionTrack): string {
+    return track.name?.simpleText ?? track.name?.runs?.map((r) => r.text).join('') ?? track.languageCode;
+}
 
-        // Extract ytInitialPlayerResponse which contains captionTracks
-        const playerObj = extractPlayerResponse(html);
-        if (!playerObj) {
-            log.warning('Could not find ytInitialPlayerResponse in page');
-            return [];
-        }
+/**
+ * Summarise caption tracks for the output (language, name, manual vs `asr`).
+ */
+export function describeCaptionTracks(tracks: CaptionTrack[]): CaptionTrackInfo[] {
+    return tracks.map((t) => ({
+        languageCode: t.languageCode,
+        name: getTrackName(t),
+        isAutoGenerated: t.kind === 'asr',
+        isTranslatable: t.isTranslatable ?? false,
+    }));
+}
+
+/** A chosen caption track, optionally machine-translated via `tlang` */
+export interface CaptionSelection {
+    track: CaptionTrack;
+    /** Target language when YouTube should translate the track */
+    translateTo?: string;
+}
+
+/** Whether a track language code satisfies a requested code (`en` matches `en-GB`). */
+function matchesLanguage(trackCode: string, requested: string): boolean {
+    const a = trackCode.toLowerCase();
+    const b = requested.toLowerCase();
+    return a === b || a.split('-')[0] === b;
+}
 
-        const player = playerObj as {
-            captions?: {
-                playerCaptionsTracklistRenderer?: {
-                    captionTracks?: CaptionTrack[];
-                };
-            };
+/**
+ * Pick the best track for a language:
+ *  1. Manual track in the language
+ *  2. Auto-generated track in the language
+ *  3. Translated captions (`tlang`) from a translatable track, if allowed
+ *  4. Any manual track, then the first available, if `allowFallback`
+ */
+export function selectCaptionTrack(
+    player: PlayerResponse | null,
+    language: string,
+    allowTranslation: boolean,
+    allowFallback: boolean,
+): CaptionSelection | null {
+    const tracks = getCaptionTracks(player);
+    if (tracks.length === 0) return null;
+
+    let track = tracks.find((t) => matchesLanguage(t.languageCode, language) && t.kind !== 'asr');
+    if (!track) track = tracks.find((t) => matchesLanguage(t.languageCode, language));
+    if (track) return { track };
+
+    if (allowTranslation) {
+        const translationLanguages = player?.captions?.playerCaptionsTracklistRenderer?.translationLanguages;
+        const supported = !translationLanguages
+            || translationLanguages.some((l) => matchesLanguage(l.languageCode, language));
+        const source = tracks.find((t) => t.isTranslatable && t.kind !== 'asr')
+            ?? tracks.find((t) => t.isTranslatable);
+        if (supported && source) return { track: source, translateTo: language };
+    }
+
+    if (!allowFallback) return null;
+    track = tracks.find((t) => t.kind !== 'asr'); // any manual track
+    if (!track) track = tracks[0]; // fallback to first available
+    return { track };
+}
+
+/**
+ * Convert a json3 caption response into transcript segments. Pure.
+ * With `includeWords`, per-word offsets (`tOffsetMs`, present on
+ * auto-generated tracks) are kept as a `words` array on each segment.
+ */
+export function parseCaptionEvents(captionData: Json3Captions, includeWords = false): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const event of captionData.events ?? []) {
+        // Skip events without text segments (e.g. line break markers)
+        if (!event.segs) continue;
+
+        const text = event.segs
+            .map((s) => s.utf8 ?? '')
+            .join('')
+            .trim();
+
+        if (!text || text === '\n') continue;
+
+        const startMs = event.tStartMs ?? 0;
+        const durationMs = event.dDurationMs ?? 0;
+        const startSeconds = Math.round((startMs / 1000) * 100) / 100;
+        const durationSeconds = Math.round((durationMs / 1000) * 100) / 100;
+
+        const segment: TranscriptSegment = {
+            text,
+            startSeconds,
+            durationSeconds,
+            startFormatted: formatTimestamp(startMs / 1000),
         };
 
-        const tracks = player.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-        if (!tracks || tracks.length === 0) {
-            log.warning('No caption tracks found for this video');
-            return [];
+        if (includeWords) {
+            const words = parseWordTimings(event.segs, startMs, startMs + durationMs);
+            if (words.length > 0) segment.words = words;
         }
 
-        // Step 2: Pick the best track — prefer exact language match, then auto-generated
-        let track = tracks.find((t) => t.languageCode === language && t.kind !== 'asr');
-        if (!track) track = tracks.find((t) => t.languageCode === language);
-        if (!track) track = tracks.find((t) => t.kind !== 'asr'); // any manual track
-        if (!track) track = tracks[0]; // fallback to first available
-
-        log.info(`Using caption track: ${track.languageCode} (${track.kind ?? 'manual'})`);
-
-        // Step 3: Fetch the timedtext XML
-        // Append fmt=json3 to get JSON format instead of XML
-        const captionUrl = `${track.baseUrl}&fmt=json3`;
-        const captionRes = await fetchWithRetry(captionUrl);
-        if (!captionRes.ok) {
-            log.warning(`Caption fetch failed with status ${captionRes.status}`);
-            return [];
-        }
+        segments.push(segment);
+    }
+
+    return segments;
+}
 
-        const captionData = (await captionRes.json()) as {
-            events?: Array<{
-                tStartMs?: number;
-                dDurationMs?: number;
-                segs?: Array<{ utf8?: string }>;
-            }>;
+/**
+ * Turn the `segs` of one caption event into timed words. Each word ends
+ * where the next one starts; the last word ends with the event. Events
+ * without any `tOffsetMs` (manual tracks) have no per-word timing and
+ * yield an empty list.
+ */
+function parseWordTimings(
+    segs: Array<{ utf8?: string; tOffsetMs?: number }>,
+    eventStartMs: number,
+    eventEndMs: number,
+): TranscriptWord[] {
+    if (!segs.some((s) => s.tOffsetMs !== undefined)) return [];
+
+    const timed = segs
+        .map((s) => ({ text: (s.utf8 ?? '').trim(), startMs: eventStartMs + (s.tOffsetMs ?? 0) }))
+        .filter((w) => w.text.length > 0);
+
+    return timed.map((w, i) => {
+        const endMs = Math.max(w.startMs, i + 1 < timed.length ? timed[i + 1].startMs : eventEndMs);
+        return {
+            text: w.text,
+            startSeconds: Math.round(w.startMs / 10) / 100,
+            endSeconds: Math.round(endMs / 10) / 100,
         };
+    });
+}
 
-        if (!captionData.events) {
-            log.warning('No events in caption data');
-            return [];
-        }
+/**
+ * Fetch one caption track (translated if requested) as transcript segments.
+ */
+export async function fetchCaptionSegments(
+    selection: CaptionSelection,
+    includeWords = false,
+): Promise<TranscriptSegment[]> {
+    // Append fmt=json3 to get JSON format instead of XML
+    let captionUrl = `${selection.track.baseUrl}&fmt=json3`;
+    if (selection.translateTo) captionUrl += `&tlang=${encodeURIComponent(selection.translateTo)}`;
 
-        // Step 4: Parse into our format
-        const segments: TranscriptSegment[] = [];
+    const captionRes = await fetchWithRetry(captionUrl);
+    if (!captionRes.ok) {
+        throw new ScrapeError(
+            captionRes.status === 429 ? 'RATE_LIMITED' : 'CAPTION_FETCH_FAILED',
+            `Caption fetch failed with status ${captionRes.status}`,
+        );
+    }
+
+    const captionData = (await captionRes.json()) as Json3Captions;
+    if (!captionData.events) {
+        log.warning('No events in caption data');
+        return [];
+    }
+
+    return parseCaptionEvents(captionData, includeWords);
+}
+
+/**
+ * Fetch transcripts for each requested language using the caption tracks
+ * listed in the already-parsed player response, then fetching the timedtext
+ * data directly. Only the first language falls back to an unrelated track
+ * when nothing matches; other languages are skipped instead. Throws the
+ * last fetch error when tracks exist but none of them could be fetched.
+ *
+ * This avoids third-party libraries that break when YouTube updates their player.
+ */
+export async function fetchTranscripts(
+    player: PlayerResponse | null,
+    languages: string[],
+    allowTranslation: boolean,
+    includeWordTimings = false,
+): Promise<TranscriptResult[]> {
+    log.info(`Fetching transcripts (lang: ${languages.join(', ')})`);
 
-        for (const event of captionData.events) {
-            // Skip events without text segments (e.g. line break markers)
-            if (!event.segs) continue;
+    if (getCaptionTracks(player).length === 0) {
+        log.warning('No caption tracks found for this video');
+        return [];
+    }
 
-            const text = event.segs
-                .map((s) => s.utf8 ?? '')
-                .join('')
-                .trim();
+    const results: TranscriptResult[] = [];
+    const fetched = new Set<string>();
+    let lastError: unknown = null;
 
-            if (!text || text === '\n') continue;
+    for (const [index, language] of languages.entries()) {
+        const selection = selectCaptionTrack(player, language, allowTranslation, index === 0);
+        if (!selection) {
+            log.warning(`No caption track available for language "${language}"`);
+            continue;
+        }
 
-            const startMs = event.tStartMs ?? 0;
-            const durationMs = event.dDurationMs ?? 0;
-            const startSeconds = Math.round((startMs / 1000) * 100) / 100;
-            const durationSeconds = Math.round((durationMs / 1000) * 100) / 100;
+        const { track, translateTo } = selection;
+        const selectionKey = `${track.baseUrl}|${translateTo ?? ''}`;
+        if (fetched.has(selectionKey)) continue;
+        fetched.add(selectionKey);
 
-            segments.push({
-                text,
-                startSeconds,
-                durationSeconds,
-                startFormatted: formatTimestamp(startMs / 1000),
+        log.info(`Using caption track for "${language}": ${track.languageCode} (${track.kind ?? 'manual'})${translateTo ? ` translated to ${translateTo}` : ''}`);
+
+        try {
+            const segments = await fetchCaptionSegments(selection, includeWordTimings);
+            results.push({
+                requestedLanguage: language,
+                languageCode: translateTo ?? track.languageCode,
+                trackName: getTrackName(track),
+                isAutoGenerated: track.kind === 'asr',
+                isTranslated: Boolean(translateTo),
+                sourceLanguageCode: translateTo ? track.languageCode : undefined,
+                origin: 'youtube_captions',
+                segments,
             });
+        } catch (err) {
+            lastError = err;
+            log.warning(`Could not fetch transcript for "${language}": ${(err as Error).message}`);
         }
-
-        return segments;
-    } catch (err) {
-        log.warning(`Could not fetch transcript: ${(err as Error).message}`);
-        return [];
     }
+
+    if (results.length === 0 && lastError) throw lastError;
+    return results;
 }
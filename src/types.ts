@@ -1,15 +1,228 @@
 /** Input schema for the actor */
 export interface ActorInput {
     /** YouTube video URL or video ID */
-    videoUrl: string;
+    videoUrl?: string;
+    /** Video, playlist (`list=`) or channel/handle URLs to process in one run */
+    videoUrls?: string[];
+    /** Maximum number of videos taken from each playlist or channel (default: 50) */
+    maxVideosPerSource?: number;
+    /** Only process the video from this second on; a `t=` / `start=` URL parameter takes precedence */
+    startSeconds?: number;
+    /** Only process the video up to this second; an `end=` URL parameter takes precedence */
+    endSeconds?: number;
     /** Language code for transcript (default: 'en') */
     language?: string;
+    /** Several transcript languages to fetch in one run; overrides `language` */
+    languages?: string[];
+    /** Use YouTube's translated captions when a language has no native track (default: true) */
+    translateCaptions?: boolean;
+    /** Include per-word timing on transcript segments where available (default: false) */
+    includeWordTimings?: boolean;
+    /** Also produce a sentence-segmented, de-duplicated transcript (default: false) */
+    cleanTranscript?: boolean;
+    /** How the cleaned transcript treats `[Music]`-style sound tags (default: 'normalize') */
+    soundTags?: SoundTagMode;
     /** Whether to capture still frames at key moments */
     captureFrames?: boolean;
     /** Maximum number of frames to capture (default: 10) */
     maxFrames?: number;
     /** Frame capture interval in seconds — only used if no chapters exist (default: 60) */
     frameIntervalSeconds?: number;
+    /** Crop storyboard tiles into standalone images in the key-value store (default: true) */
+    cropStoryboardFrames?: boolean;
+    /** Also save storyboard frames upscaled by this factor; 1 disables it (default: 1) */
+    storyboardUpscale?: number;
+    /** Pick storyboard tiles by image size or by time precision (default: 'resolution') */
+    storyboardPreference?: 'resolution' | 'precision';
+    /** Smallest storyboard tile width to aim for in 'resolution' mode (default: widest available) */
+    storyboardTargetWidth?: number;
+    /** Frame selection strategies to use (default: all) */
+    frameStrategies?: FrameStrategy[];
+    /** Weight per strategy; heavier candidates win when close together (default: scene_change 5 ... interval 1) */
+    frameStrategyWeights?: Partial<Record<FrameStrategy, number>>;
+    /** Extra visual cue phrases by language code (`de`, `es-MX`, or `*` for all), added to the built-in sets */
+    visualCuePhrases?: Record<string, string[]>;
+    /** Timestamps to always capture, as seconds or `m:ss` / `h:mm:ss` */
+    frameTimestamps?: Array<number | string>;
+    /** Drop candidates within this many seconds of a heavier one (default: 10) */
+    frameDedupWindowSeconds?: number;
+    /** Capture chapter frames this many seconds after the chapter start (default: 5) */
+    chapterFrameOffsetSeconds?: number;
+    /** Transcribe the audio locally (whisper.cpp) when the video has no captions (default: false) */
+    transcribeAudioFallback?: boolean;
+    /** Skip local transcription for videos longer than this many minutes (default: 60) */
+    maxTranscriptionMinutes?: number;
+    /** Cache results (and frames) in a named key-value store and reuse them on later runs (default: false) */
+    useCache?: boolean;
+    /** Name of the cache key-value store (default: 'youtube-scraper-cache') */
+    cacheStoreName?: string;
+    /** Cached results older than this are scraped again (default: 168 = one week) */
+    cacheTtlHours?: number;
+    /** Ignore cached results and frames, and overwrite them (default: false) */
+    forceRefresh?: boolean;
+    /** Run OCR (tesseract) on captured frames for on-screen text and code (default: false) */
+    ocrFrames?: boolean;
+    /** Tesseract language codes, joined with `+` (default: 'eng') */
+    ocrLanguages?: string;
+    /** Drop near-identical frames (perceptual hash) and capture other timestamps instead (default: true) */
+    dedupeFrames?: boolean;
+    /** Pick frames at detected scene/slide changes (ffmpeg scene scores or storyboard diffs; default: false) */
+    detectSceneChanges?: boolean;
+    /** Scrape comments (default: false) */
+    scrapeComments?: boolean;
+    /** Maximum number of top-level comments per video (default: 100) */
+    maxComments?: number;
+    /** Comment order (default: 'top') */
+    commentsSort?: CommentSort;
+    /** Fetch replies to each comment (default: false) */
+    includeCommentReplies?: boolean;
+    /** Transcript files to write to the key-value store (default: none) */
+    transcriptFormats?: TranscriptFormat[];
+    /** Follow URL shorteners (bit.ly, amzn.to, ...) to their destination (default: true) */
+    resolveLinkRedirects?: boolean;
+    /** Fail the run when any video is only partially scraped (default: false) */
+    failOnPartialResults?: boolean;
+    /** Proxy for all requests; a new session (IP) is used when YouTube blocks the current one */
+    proxyConfiguration?: ProxyInput;
+    /** Cookies for youtube.com: `Cookie` header, browser-extension JSON export, or Netscape cookies.txt */
+    cookies?: string;
+}
+
+/** Apify proxy settings as produced by the `proxy` input editor */
+export interface ProxyInput {
+    useApifyProxy?: boolean;
+    apifyProxyGroups?: string[];
+    apifyProxyCountry?: string;
+    proxyUrls?: string[];
+}
+
+/** Where the player response came from (see `dataSource`) */
+export type PlayerResponseSource = 'watch_page' | 'innertube_player';
+
+/** Where the video data came from; `oembed` supplies only the title and channel */
+export type DataSource = PlayerResponseSource | 'oembed';
+
+/** Where a transcript came from */
+export type TranscriptOrigin = 'youtube_captions' | 'local_asr';
+
+/** Sound tag handling in the cleaned transcript: keep as-is, rewrite to `[music]` style, or remove */
+export type SoundTagMode = 'keep' | 'normalize' | 'strip';
+
+/** Ways of choosing frame timestamps; also the `relevance` of the resulting frames */
+export type FrameStrategy = 'scene_change' | 'visual_cue' | 'chapter_start' | 'topic_transition' | 'interval';
+
+/** Why a frame was kept when choosing frames within the `maxFrames` budget */
+export type FrameSelectionReason =
+    | 'explicit'
+    | 'within_budget'
+    | 'chapter_coverage'
+    | 'priority'
+    | 'time_coverage'
+    | 'duplicate_replacement';
+
+/** Comment ordering offered by YouTube */
+export type CommentSort = 'top' | 'newest';
+
+/** Transcript export file formats */
+export type TranscriptFormat = 'srt' | 'vtt' | 'markdown' | 'text';
+
+/** Pipeline stages reported in `stages` */
+export type StageName = 'metadata' | 'transcript' | 'comments' | 'frames' | 'links';
+
+/** Outcome of a stage; `skipped` when it was not requested or could not run */
+export type StageStatus = 'ok' | 'partial' | 'failed' | 'skipped';
+
+/** Machine-readable reason for a stage that did not fully succeed */
+export type StageErrorCode =
+    | 'RATE_LIMITED'
+    | 'CONSENT_WALL'
+    | 'VIDEO_UNAVAILABLE'
+    | 'AGE_RESTRICTED'
+    | 'BLOCKED'
+    | 'PLAYER_RESPONSE_NOT_FOUND'
+    | 'NO_CAPTIONS'
+    | 'CAPTION_FETCH_FAILED'
+    | 'FFMPEG_UNAVAILABLE'
+    | 'FRAME_CAPTURE_FAILED'
+    | 'NETWORK_ERROR'
+    | 'UNKNOWN';
+
+/** Result of one pipeline stage for a video */
+export interface StageResult {
+    stage: StageName;
+    status: StageStatus;
+    /** Set when the stage failed or fell back; may also explain an `ok` stage (e.g. `NO_CAPTIONS` with a local transcript) */
+    code?: StageErrorCode;
+    message?: string;
+}
+
+/** Overall result for a video: `failed` when even its metadata could not be read */
+export type ItemStatus = 'ok' | 'partial' | 'failed';
+
+/** Result cache settings */
+export interface CacheOptions {
+    storeName: string;
+    ttlHours: number;
+    forceRefresh: boolean;
+}
+
+/** Normalised per-video options derived from the actor input */
+export interface ScrapeOptions {
+    /** Requested transcript languages; the first one is the primary transcript */
+    languages: string[];
+    translateCaptions: boolean;
+    includeWordTimings: boolean;
+    cleanTranscript: boolean;
+    soundTags: SoundTagMode;
+    transcribeAudioFallback: boolean;
+    maxTranscriptionMinutes: number;
+    captureFrames: boolean;
+    maxFrames: number;
+    frameIntervalSeconds: number;
+    /** Weight per strategy, 0 for disabled ones */
+    frameStrategyWeights: Record<FrameStrategy, number>;
+    visualCuePhrases: Record<string, string[]>;
+    frameTimestamps: number[];
+    frameDedupWindowSeconds: number;
+    chapterFrameOffsetSeconds: number;
+    cropStoryboardFrames: boolean;
+    storyboardUpscale: number;
+    storyboardPreference: 'resolution' | 'precision';
+    storyboardTargetWidth?: number;
+    detectSceneChanges: boolean;
+    dedupeFrames: boolean;
+    ocrFrames: boolean;
+    ocrLanguages: string;
+    transcriptFormats: TranscriptFormat[];
+    resolveLinkRedirects: boolean;
+    scrapeComments: boolean;
+    maxComments: number;
+    commentsSort: CommentSort;
+    includeCommentReplies: boolean;
+    /** Part of the video to process, or null for all of it */
+    clip: ClipRange | null;
+    /** Result cache, or null when disabled; not part of the cache key */
+    cache: CacheOptions | null;
+}
+
+/** Part of a video to process, in seconds; `endSeconds` null means until the end */
+export interface ClipRange {
+    startSeconds: number;
+    endSeconds: number | null;
+}
+
+/** The part of the video a dataset item covers */
+export interface ClipWindow extends ClipRange {
+    startFormatted: string;
+    /** Null when neither an end nor the duration is known (e.g. a live stream) */
+    endFormatted: string | null;
+}
+
+/** A single word with its timing inside a transcript segment */
+export interface TranscriptWord {
+    text: string;
+    startSeconds: number;
+    endSeconds: number;
 }
 
 /** A single transcript segment */
@@ -18,19 +231,118 @@ export interface TranscriptSegment {
     startSeconds: number;
     durationSeconds: number;
     startFormatted: string;
+    /** Word-level timing (auto-generated tracks, when `includeWordTimings` is set) */
+    words?: TranscriptWord[];
+}
+
+/** A caption track available on the video */
+export interface CaptionTrackInfo {
+    languageCode: string;
+    name: string;
+    isAutoGenerated: boolean;
+    isTranslatable: boolean;
+}
+
+/** A transcript in one language, with the track it came from */
+export interface TranscriptResult {
+    /** Language code from the input that this transcript answers */
+    requestedLanguage: string;
+    /** Actual language of the text (the translation target for translated tracks) */
+    languageCode: string;
+    trackName: string;
+    isAutoGenerated: boolean;
+    isTranslated: boolean;
+    /** Original track language when `isTranslated` */
+    sourceLanguageCode?: string;
+    /** YouTube captions, or speech-to-text run locally by the actor on the video's audio */
+    origin: TranscriptOrigin;
+    segments: TranscriptSegment[];
+    /** Sentence-segmented, de-duplicated segments (when `cleanTranscript` is set) */
+    cleanedSegments?: TranscriptSegment[];
 }
 
+/** Where a chapter list came from: YouTube UI creator chapters, YouTube auto-chapters, or description timestamps */
+export type ChapterSource = 'creator' | 'auto' | 'description';
+
 /** A chapter/section in the video */
 export interface VideoChapter {
     title: string;
     startSeconds: number;
     startFormatted: string;
+    endSeconds: number;
+    endFormatted: string;
+    source: ChapterSource;
+}
+
+/** A `m:ss` / `h:mm:ss` reference found in free text */
+export interface TimestampReference {
+    seconds: number;
+    formatted: string;
+    /** The line the timestamp appeared on */
+    context: string;
+}
+
+/** A comment (or reply) on the video */
+export interface VideoComment {
+    commentId: string;
+    text: string;
+    authorName: string;
+    authorChannelId: string;
+    isCreator: boolean;
+    likeCount: number;
+    /** Relative time as shown by YouTube, e.g. "2 weeks ago" */
+    publishedTime: string;
+    replyCount: number;
+    /** ID of the parent comment for replies */
+    parentId?: string;
+    timestamps: TimestampReference[];
+    replies?: VideoComment[];
+}
+
+/** A thumbnail image variant */
+export interface VideoThumbnail {
+    url: string;
+    width: number | null;
+    height: number | null;
 }
 
+/** Live stream timing, present for streams and archived streams */
+export interface LiveBroadcastDetails {
+    isLiveNow: boolean;
+    startTimestamp: string | null;
+    endTimestamp: string | null;
+}
+
+/** Where a link was found */
+export type LinkSource = 'description' | 'transcript' | 'ocr';
+
+/** What a link points at */
+export type LinkCategory = 'github_repo' | 'docs' | 'social' | 'affiliate' | 'youtube_video' | 'sponsor' | 'other';
+
 /** A link found in the description or transcript */
 export interface ExtractedLink {
+    /** The URL as it appears in the text */
     url: string;
     context: string;
+    source: LinkSource;
+    /** Destination after unwrapping `youtube.com/redirect` and resolving shorteners */
+    finalUrl: string;
+    /** `finalUrl` without tracking parameters, `www.` or trailing slash — used for de-duplication */
+    normalizedUrl: string;
+    domain: string;
+    category: LinkCategory;
+    /** Where a transcript link was mentioned */
+    timestampSeconds?: number;
+    timestampFormatted?: string;
+}
+
+/** A transcript export saved to the key-value store */
+export interface TranscriptFile {
+    format: TranscriptFormat;
+    languageCode: string;
+    key: string;
+    /** Public record URL (null when running locally) */
+    url: string | null;
 }
 
 /** A captured still frame */
@@ -43,7 +355,46 @@ export interface StillFrame {
     transcriptContext?: string;
     chapterTitle?: string;
     relevance?: string;
+    /** Why this frame was kept within the `maxFrames` budget */
+    selectionReason?: FrameSelectionReason;
+    /** Upscaled copy of a cropped storyboard frame (when `storyboardUpscale` > 1) */
+    upscaledImageUrl?: string;
+    /** Storyboard sprite sheet the frame was cropped from */
+    sheetUrl?: string;
+    /** Position of the frame inside `sheetUrl` */
     tileRect?: { x: number; y: number; w: number; h: number };
+    /** Storyboard quality level the tile was taken from */
+    storyboardLevel?: number;
+    /** The image was taken from the cache store instead of being captured again */
+    reusedFromCache?: boolean;
+    /** On-screen text recognised with OCR (when `ocrFrames` is enabled) */
+    ocr?: FrameOcr;
+    /** 64-bit perceptual hash (dHash, hex) of the image; compare with Hamming distance */
+    perceptualHash?: string;
+}
+
+/** A line of text recognised in a frame; `bbox` is in the frame's pixels */
+export interface OcrLine {
+    text: string;
+    /** Mean word confidence, 0-1 */
+    confidence: number;
+    bbox: { x: number; y: number; w: number; h: number };
+}
+
+/** A block (paragraph, code listing, ...) of recognised lines */
+export interface OcrBlock extends OcrLine {
+    /** Most lines of the block look like source code */
+    isCode: boolean;
+}
+
+/** OCR result for a captured frame */
+export interface FrameOcr {
+    /** All recognised text, blocks separated by blank lines */
+    text: string;
+    confidence: number;
+    lines: OcrLine[];
+    blocks: OcrBlock[];
+    containsCode: boolean;
 }
 
 /** Full output of the actor */
@@ -56,12 +407,49 @@ export interface ActorOutput {
     duration: string;
     durationSeconds: number;
     viewCount: number;
+    /** Null when the count is hidden or could not be read */
+    likeCount: number | null;
+    commentCount: number | null;
+    channelId: string;
+    channelSubscriberCount: number | null;
+    uploadDate: string;
+    keywords: string[];
+    category: string;
+    isFamilySafe: boolean;
+    isUnlisted: boolean;
+    isLiveContent: boolean;
+    isShort: boolean;
+    liveBroadcast: LiveBroadcastDetails | null;
+    availableCountries: string[];
     description: string;
     thumbnailUrl: string;
+    thumbnails: VideoThumbnail[];
     chapters: VideoChapter[];
+    /** Segments of the primary (first) transcript in `transcripts` */
     transcript: TranscriptSegment[];
+    /** Origin of `transcript`; null when there is none */
+    transcriptOrigin: TranscriptOrigin | null;
+    /** Cleaned version of `transcript` (when `cleanTranscript` is set) */
+    cleanTranscript?: TranscriptSegment[];
+    transcripts: TranscriptResult[];
+    availableCaptionTracks: CaptionTrackInfo[];
     fullTranscriptText: string;
+    transcriptFiles: TranscriptFile[];
     links: ExtractedLink[];
+    /** Present when `scrapeComments` is set */
+    comments?: VideoComment[];
     frames: StillFrame[];
     videoUrl: string;
+    /** Window the transcript, chapters, links and frames are limited to; null for the whole video */
+    clip: ClipWindow | null;
+    /** Source of the metadata, captions and storyboards; null when none could be read */
+    dataSource: DataSource | null;
+    /** The input entry (video, playlist or channel URL) this video came from */
+    sourceUrl: string;
+    /** `ok` when every requested stage succeeded */
+    status: ItemStatus;
+    /** Per-stage results, with error codes for stages that failed or fell back */
+    stages: StageResult[];
+    /** When the item was originally scraped, if it was served from the cache */
+    cachedAt?: string;
 }
@@ -1,41 +1,4 @@
-import { log } from 'crawlee';
-
-/**
- * Fetch with automatic retry and exponential backoff.
- * Retries on 429 (rate limit) and 5xx (server errors).
- * Does not retry on 403/404 (client errors that won't resolve with retries).
- */
-export async function fetchWithRetry(
-    url: string,
-    options?: RequestInit,
-    maxRetries = 3,
-    baseDelayMs = 1000,
-): Promise<Response> {
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-            const res = await fetch(url, options);
-            if (res.ok || res.status === 404 || res.status === 403) {
-                return res;
-            }
-            if (attempt < maxRetries && (res.status === 429 || res.status >= 500)) {
-                const delay = baseDelayMs * Math.pow(2, attempt);
-                log.warning(`Fetch returned ${res.status} for ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})...`);
-                await new Promise((r) => setTimeout(r, delay));
-                continue;
-            }
-            return res;
-        } catch (err) {
-            if (attempt < maxRetries) {
-                const delay = baseDelayMs * Math.pow(2, attempt);
-                log.warning(`Fetch failed for ${url}: ${(err as Error).message}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})...`);
-                await new Promise((r) => setTimeout(r, delay));
-                continue;
-            }
-            throw err;
-        }
-    }
-    throw new Error('fetchWithRetry: should be unreachable');
-}
+import { Actor } from 'apify';
 
 /** Standard headers to mimic a real browser when fetching YouTube pages. */
 export const YOUTUBE_HEADERS: Record<string, string> = {
@@ -44,27 +7,125 @@ export const YOUTUBE_HEADERS: Record<string, string> = {
     'Accept-Language': 'en-US,en;q=0.9',
 };
 
+/**
+ * Return the JSON object literal starting at `start` (which must be `{`),
+ * by matching braces outside of strings. Unlike a lazy `\{.+?\};` regex this
+ * is not cut short by a `};` inside a string. Returns null if the braces
+ * never balance.
+ */
+function sliceBalancedObject(text: string, start: number): string | null {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) return text.slice(start, i + 1);
+        }
+    }
+    return null;
+}
+
+/**
+ * Find every assignment to `name` in page HTML (`var x = {`, `x = {`,
+ * `window["x"] = {`) and parse the first object literal that is valid JSON.
+ */
+function extractJsonAssignment(html: string, name: string): Record<string, unknown> | null {
+    const pattern = new RegExp(`(?:\\b${name}|\\["${name}"\\])\\s*=\\s*\\{`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(html)) !== null) {
+        const json = sliceBalancedObject(html, match.index + match[0].length - 1);
+        if (!json) continue;
+        try {
+            return JSON.parse(json) as Record<string, unknown>;
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
 /**
  * Extract ytInitialPlayerResponse JSON from a YouTube watch page HTML string.
- * Tries multiple regex patterns as YouTube occasionally changes the format.
  * Returns the parsed object or null if extraction fails.
  */
 export function extractPlayerResponse(html: string): Record<string, unknown> | null {
-    const patterns = [
-        /var\s+ytInitialPlayerResponse\s*=\s*(\{.+?\})\s*;/s,
-        /ytInitialPlayerResponse\s*=\s*(\{.+?\})\s*;/s,
-        /window\["ytInitialPlayerResponse"\]\s*=\s*(\{.+?\})\s*;/s,
-    ];
+    return extractJsonAssignment(html, 'ytInitialPlayerResponse');
+}
+
+/**
+ * Extract ytInitialData JSON (page layout: playlists, channel tabs, panels)
+ * from a YouTube page HTML string. Returns null if extraction fails.
+ */
+export function extractInitialData(html: string): Record<string, unknown> | null {
+    return extractJsonAssignment(html, 'ytInitialData');
+}
 
-    for (const pattern of patterns) {
-        const match = html.match(pattern);
-        if (match) {
-            try {
-                return JSON.parse(match[1]);
-            } catch {
-                continue;
-            }
+/**
+ * Recursively collect every value stored under `key` anywhere in a parsed
+ * JSON tree. YouTube nests renderers at unpredictable depths, so walking the
+ * whole tree is more robust than hard-coding paths.
+ */
+export function findAllByKey(node: unknown, key: string, results: unknown[] = []): unknown[] {
+    if (Array.isArray(node)) {
+        for (const item of node) findAllByKey(item, key, results);
+    } else if (node && typeof node === 'object') {
+        for (const [k, v] of Object.entries(node)) {
+            if (k === key) results.push(v);
+            findAllByKey(v, key, results);
         }
     }
-    return null;
+    return results;
+}
+
+/** Read the text of a `{ simpleText }` or `{ runs: [{ text }] }` node. */
+export function readText(node: unknown): string {
+    const text = node as { simpleText?: string; runs?: Array<{ text?: string }> } | undefined;
+    return (text?.simpleText ?? text?.runs?.map((r) => r.text ?? '').join('') ?? '').trim();
+}
+
+/**
+ * Parse a YouTube count like "1,234", "12K", "1.2M subscribers" or
+ * "3.4B views" into a number. Returns null if the text has no number.
+ */
+export function parseCompactNumber(text: string | undefined): number | null {
+    if (!text) return null;
+    const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([KMB])?\b/i);
+    if (!match) return null;
+    const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[(match[2] ?? '').toUpperCase() as 'K' | 'M' | 'B'] ?? 1;
+    return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Public API URL of a record in a key-value store (the default one unless
+ * `storeId` is given), or null when running locally without a platform
+ * store ID.
+ */
+export function getRecordUrl(key: string, storeId?: string): string | null {
+    const defaultStoreId = process.env.APIFY_DEFAULT_KEY_VALUE_STORE_ID;
+    if (!defaultStoreId) return null;
+    return `https://api.apify.com/v2/key-value-stores/${storeId ?? defaultStoreId}/records/${key}`;
+}
+
+/**
+ * Save a record to the default key-value store, or to the named store
+ * `storeName`, and return its public URL (null when running locally, see
+ * `getRecordUrl`).
+ */
+export async function saveRecord(
+    key: string,
+    value: Buffer | string,
+    contentType: string,
+    storeName?: string,
+): Promise<string | null> {
+    const kvStore = await Actor.openKeyValueStore(storeName);
+    await kvStore.setValue(key, value, { contentType });
+    return getRecordUrl(key, storeName ? kvStore.id : undefined);
 }
@@ -0,0 +1,331 @@
+import { log } from 'crawlee';
+import type { ActorOutput, ClipRange, ClipWindow, ScrapeOptions, StageResult, StillFrame, TranscriptResult, VideoComment } from './types.js';
+import { fetchTranscripts, describeCaptionTracks, getCaptionTracks, formatTimestamp } from './transcript.js';
+import { fetchMetadata, extractMetadata, type VideoMetadata } from './metadata.js';
+import { extractTranscriptLinks, extractFrameLinks, resolveLinkRedirects, dedupeLinks } from './links.js';
+import { fetchWatchPage, isAgeGated, type WatchPage } from './watchPage.js';
+import { pickTimestamps, captureFrames } from './frames.js';
+import { saveTranscriptExports } from './exports.js';
+import { resegmentTranscript } from './segmentation.js';
+import { fetchComments } from './comments.js';
+import { detectSceneChanges } from './scenes.js';
+import { buildCuePatterns } from './visualCues.js';
+import { transcribeAudio } from './whisper.js';
+import { isFfmpegAvailable } from './ffmpeg.js';
+import { getOptionsHash } from './cache.js';
+import { failedStage, getErrorCode, getItemStatus } from './status.js';
+
+/** Why the player response is missing or unusable; null when it is fine. */
+function getPlayerProblem(page: WatchPage | null, pageError: unknown): Pick<StageResult, 'code' | 'message'> | null {
+    if (pageError) return { code: getErrorCode(pageError), message: (pageError as Error).message };
+    const player = page?.playerResponse;
+    if (!player) return { code: 'PLAYER_RESPONSE_NOT_FOUND', message: 'No player response in the watch page or from the InnerTube API' };
+    const playability = player.playabilityStatus;
+    if (isAgeGated(player)) {
+        return { code: 'AGE_RESTRICTED', message: playability?.reason ?? 'The video is age-restricted' };
+    }
+    if (playability?.status && playability.status !== 'OK') {
+        return { code: 'VIDEO_UNAVAILABLE', message: playability.reason ?? `Playability status ${playability.status}` };
+    }
+    return null;
+}
+
+/** Resolve a clip range against the video duration (0 when unknown). */
+function resolveClipWindow(clip: ClipRange | null, durationSeconds: number): ClipWindow | null {
+    if (!clip) return null;
+    const known = durationSeconds > 0;
+    const startSeconds = known ? Math.min(clip.startSeconds, durationSeconds) : clip.startSeconds;
+    const end = clip.endSeconds ?? (known ? durationSeconds : null);
+    const endSeconds = end !== null && known ? Math.min(end, durationSeconds) : end;
+    return {
+        startSeconds,
+        endSeconds,
+        startFormatted: formatTimestamp(startSeconds),
+        endFormatted: endSeconds !== null ? formatTimestamp(endSeconds) : null,
+    };
+}
+
+/** Whether the span from `startSeconds` to `endSeconds` overlaps the clip window. */
+function overlapsClip(clip: ClipWindow, startSeconds: number, endSeconds: number): boolean {
+    return endSeconds > clip.startSeconds && (clip.endSeconds === null || startSeconds < clip.endSeconds);
+}
+
+/** Pick frame timestamps (with optional scene detection) inside the clip and capture them. */
+async function captureVideoFrames(
+    videoId: string,
+    metadata: VideoMetadata,
+    transcripts: TranscriptResult[],
+    clip: ClipWindow | null,
+    options: ScrapeOptions,
+): Promise<StillFrame[]> {
+    const sheetCache = new Map<string, Promise<Buffer>>();
+    const sceneChanges = options.detectSceneChanges && options.frameStrategyWeights.scene_change > 0
+        ? await detectSceneChanges(videoId, metadata.storyboardSpec, metadata.durationSeconds, sheetCache)
+        : [];
+
+    const plan = pickTimestamps(metadata.durationSeconds, metadata.chapters, transcripts[0]?.segments ?? [], {
+        maxFrames: options.maxFrames,
+        intervalSeconds: options.frameIntervalSeconds,
+        weights: options.frameStrategyWeights,
+        cuePatterns: buildCuePatterns(transcripts[0]?.languageCode ?? options.languages[0], options.visualCuePhrases),
+        explicitTimestamps: options.frameTimestamps,
+        dedupWindowSeconds: options.frameDedupWindowSeconds,
+        chapterOffsetSeconds: options.chapterFrameOffsetSeconds,
+        window: clip ? { startSeconds: clip.startSeconds, endSeconds: clip.endSeconds ?? metadata.durationSeconds } : undefined,
+    }, sceneChanges);
+
+    if (plan.selected.length === 0) return [];
+    return captureFrames(videoId, plan, metadata.storyboardSpec, {
+        durationSeconds: metadata.durationSeconds,
+        cropStoryboard: options.cropStoryboardFrames,
+        storyboardUpscale: options.storyboardUpscale,
+        storyboardPreference: options.storyboardPreference,
+        storyboardTargetWidth: options.storyboardTargetWidth,
+        dedupeFrames: options.dedupeFrames,
+        ocr: options.ocrFrames,
+        ocrLanguages: options.ocrLanguages,
+        cache: options.cache,
+        optionsHash: options.cache ? getOptionsHash(options) : undefined,
+        sheetCache,
+    });
+}
+
+/**
+ * Run the full scrape pipeline (metadata, transcript, frames, links) for a
+ * single video and build its dataset item. Stage failures do not throw;
+ * they are recorded in the item's `stages` and `status`.
+ */
+export async function processVideo(
+    videoId: string,
+    sourceUrl: string,
+    options: ScrapeOptions,
+): Promise<ActorOutput> {
+    // ----- Fetch the watch page once; both extractors share it -----
+    const stages: StageResult[] = [];
+    let page: WatchPage | null = null;
+    let pageError: unknown = null;
+    try {
+        page = await fetchWatchPage(videoId);
+    } catch (err) {
+        pageError = err;
+        log.warning(`Watch page fetch failed: ${(err as Error).message}`);
+    }
+    const player = page?.playerResponse ?? null;
+    const playerProblem = getPlayerProblem(page, pageError);
+
+    // ----- Extract metadata + fetch transcript in parallel (resilient) -----
+    const results = await Promise.allSettled([
+        fetchMetadata(videoId, page),
+        fetchTranscripts(player, options.languages, options.translateCaptions, options.includeWordTimings),
+    ]);
+
+    const metadata = results[0].status === 'fulfilled'
+        ? results[0].value
+        : extractMetadata(videoId, null);
+
+    if (results[0].status === 'rejected') {
+        log.warning(`Metadata fetch failed, using defaults: ${results[0].reason}`);
+        stages.push(failedStage('metadata', results[0].reason));
+    } else if (player?.videoDetails) {
+        stages.push({ stage: 'metadata', status: 'ok' });
+    } else {
+        // Without a player response only oEmbed's title and channel are known
+        stages.push({
+            stage: 'metadata',
+            status: metadata.title !== 'Unknown' ? 'partial' : 'failed',
+            ...(playerProblem ?? { code: 'PLAYER_RESPONSE_NOT_FOUND', message: 'The player response has no video details' }),
+        });
+    }
+
+    // ----- Clip window: only chapters (and below, transcript and frames) inside it -----
+    const clip = resolveClipWindow(options.clip, metadata.durationSeconds);
+    if (clip) {
+        log.info(`Limiting to ${clip.startFormatted}-${clip.endFormatted ?? 'end'}`);
+        metadata.chapters = metadata.chapters.filter((ch) => overlapsClip(clip, ch.startSeconds, ch.endSeconds));
+    }
+
+    const transcripts = results[1].status === 'fulfilled' ? results[1].value : [];
+
+    let captionProblem: StageResult | null = null;
+    if (results[1].status === 'rejected') {
+        log.warning(`Transcript fetch failed, using empty transcript: ${results[1].reason}`);
+        captionProblem = failedStage('transcript', results[1].reason);
+    } else if (transcripts.length === 0) {
+        captionProblem = {
+            stage: 'transcript',
+            status: 'failed',
+            ...(playerProblem ?? { code: 'NO_CAPTIONS', message: 'The video has no captions' }),
+        };
+    }
+
+    // ----- Local speech-to-text when there are no captions (opt-in) -----
+    if (transcripts.length === 0 && options.transcribeAudioFallback && metadata.durationSeconds > 0) {
+        const audioWindow = { startSeconds: clip?.startSeconds ?? 0, endSeconds: clip?.endSeconds ?? metadata.durationSeconds };
+        if (audioWindow.endSeconds - audioWindow.startSeconds > options.maxTranscriptionMinutes * 60) {
+            log.warning(`Skipping local transcription: ${clip ? 'clip' : 'video'} is longer than ${options.maxTranscriptionMinutes} minutes`);
+        } else if (audioWindow.endSeconds > audioWindow.startSeconds) {
+            const local = await transcribeAudio(videoId, audioWindow, options.languages[0]);
+            if (local) transcripts.push(local);
+        }
+    }
+    if (clip) {
+        for (const result of transcripts) {
+            result.segments = result.segments.filter((seg) => overlapsClip(clip, seg.startSeconds, seg.startSeconds + seg.durationSeconds));
+        }
+    }
+    if (!captionProblem) {
+        stages.push({ stage: 'transcript', status: 'ok' });
+    } else if (transcripts.length > 0) {
+        stages.push({ ...captionProblem, status: 'ok', message: `${captionProblem.message}; transcribed the audio locally` });
+    } else {
+        stages.push(captionProblem);
+    }
+    const transcript = transcripts[0]?.segments ?? [];
+
+    // ----- Sentence re-segmentation of caption events -----
+    if (options.cleanTranscript) {
+        for (const result of transcripts) {
+            result.cleanedSegments = resegmentTranscript(result.segments, options.soundTags);
+        }
+    }
+
+    // ----- Full transcript as a single text block -----
+    const fullTranscriptText = transcript.map((seg) => seg.text).join(' ');
+
+    // ----- Transcript exports (SRT, WebVTT, Markdown, plain text) -----
+    const transcriptFiles = await saveTranscriptExports(
+        videoId,
+        metadata.title,
+        transcripts,
+        metadata.chapters,
+        options.transcriptFormats,
+        options.cache?.storeName,
+        options.cache ? getOptionsHash(options) : undefined,
+    );
+
+    // ----- Comments (opt-in) -----
+    let comments: VideoComment[] | undefined;
+    if (options.scrapeComments) {
+        comments = [];
+        if (page) {
+            try {
+                comments = await fetchComments(page, options.maxComments, options.commentsSort, options.includeCommentReplies);
+                stages.push({ stage: 'comments', status: 'ok' });
+            } catch (err) {
+                log.warning(`Comment scraping failed: ${(err as Error).message}`);
+                stages.push(failedStage('comments', err));
+            }
+        } else {
+            stages.push(failedStage('comments', pageError));
+        }
+    } else {
+        stages.push({ stage: 'comments', status: 'skipped' });
+    }
+
+    // ----- Capture still frames -----
+    let frames: ActorOutput['frames'] = [];
+
+    if (!options.captureFrames) {
+        stages.push({ stage: 'frames', status: 'skipped' });
+    } else if (metadata.durationSeconds <= 0) {
+        stages.push({ stage: 'frames', status: 'skipped', message: 'The video duration is unknown' });
+    } else {
+        try {
+            frames = await captureVideoFrames(videoId, metadata, transcripts, clip, options);
+            const placeholders = frames.filter((f) => f.isFallback).length;
+            const tiles = frames.filter((f) => f.storyboardLevel !== undefined).length;
+            // A blocked or age-restricted player is why ffmpeg and storyboards failed, so report that first
+            const fallbackCode = playerProblem?.code ?? ((await isFfmpegAvailable()) ? 'FRAME_CAPTURE_FAILED' : 'FFMPEG_UNAVAILABLE');
+            const reason = playerProblem?.message ? ` (${playerProblem.message})` : '';
+            if (placeholders > 0) {
+                stages.push({
+                    stage: 'frames',
+                    status: placeholders === frames.length ? 'failed' : 'partial',
+                    code: fallbackCode,
+                    message: `${placeholders} of ${frames.length} frames are thumbnail placeholders${reason}`,
+                });
+            } else if (tiles > 0) {
+                // Usable, but low-resolution: like NO_CAPTIONS on a local transcript, the code says why
+                stages.push({
+                    stage: 'frames',
+                    status: 'ok',
+                    code: fallbackCode,
+                    message: `${tiles} of ${frames.length} frames are storyboard tiles${reason}`,
+                });
+            } else {
+                stages.push({ stage: 'frames', status: 'ok' });
+            }
+        } catch (err) {
+            log.warning(`Frame capture failed: ${(err as Error).message}`);
+            stages.push(failedStage('frames', err));
+        }
+    }
+
+    // ----- Extract links from transcript and on-screen text too -----
+    let uniqueLinks: ActorOutput['links'] = [];
+    try {
+        const transcriptLinks = extractTranscriptLinks(transcript);
+        let allLinks = [...metadata.links, ...transcriptLinks, ...extractFrameLinks(frames)];
+        if (options.resolveLinkRedirects) {
+            allLinks = await resolveLinkRedirects(allLinks);
+        }
+
+        // De-duplicate links by normalised destination URL
+        uniqueLinks = dedupeLinks(allLinks);
+
+        // Description links are missing when the metadata stage did not succeed
+        const metadataStage = stages.find((s) => s.stage === 'metadata');
+        stages.push(metadataStage?.status === 'ok'
+            ? { stage: 'links', status: 'ok' }
+            : { stage: 'links', status: 'partial', code: metadataStage?.code, message: 'Description links are unavailable' });
+    } catch (err) {
+        log.warning(`Link extraction failed: ${(err as Error).message}`);
+        stages.push(failedStage('links', err));
+    }
+
+    // ----- Build output -----
+    return {
+        videoId,
+        title: metadata.title,
+        channelName: metadata.channelName,
+        channelUrl: metadata.channelUrl,
+        publishedDate: metadata.publishedDate,
+        duration: metadata.duration,
+        durationSeconds: metadata.durationSeconds,
+        viewCount: metadata.viewCount,
+        likeCount: metadata.likeCount,
+        commentCount: metadata.commentCount,
+        channelId: metadata.channelId,
+        channelSubscriberCount: metadata.channelSubscriberCount,
+        uploadDate: metadata.uploadDate,
+        keywords: metadata.keywords,
+        category: metadata.category,
+        isFamilySafe: metadata.isFamilySafe,
+        isUnlisted: metadata.isUnlisted,
+        isLiveContent: metadata.isLiveContent,
+        isShort: metadata.isShort,
+        liveBroadcast: metadata.liveBroadcast,
+        availableCountries: metadata.availableCountries,
+        description: metadata.description,
+        thumbnailUrl: metadata.thumbnailUrl,
+        thumbnails: metadata.thumbnails,
+        chapters: metadata.chapters,
+        clip,
+        transcript,
+        transcriptOrigin: transcripts[0]?.origin ?? null,
+        cleanTranscript: transcripts[0]?.cleanedSegments,
+        transcripts,
+        availableCaptionTracks: describeCaptionTracks(getCaptionTracks(player)),
+        fullTranscriptText,
+        transcriptFiles,
+        links: uniqueLinks,
+        comments,
+        frames,
+        videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
+        // Without video details, fetchMetadata fell back to oEmbed for the title
+        dataSource: player?.videoDetails || metadata.title === 'Unknown' ? page?.playerResponseSource ?? null : 'oembed',
+        sourceUrl,
+        status: getItemStatus(stages),
+        stages,
+    };
+}
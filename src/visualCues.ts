@@ -0,0 +1,61 @@
+/**
+ * Built-in phrases that suggest something worth seeing is on screen, by
+ * base language code. Matching is case-insensitive on whole words, and an
+ * apostrophe in a phrase is optional ("here's" also matches "heres").
+ */
+export const BUILT_IN_CUE_PHRASES: Record<string, string[]> = {
+    en: [
+        'as you can see', 'let me show you', 'this diagram', "here's the code", 'this example',
+        'look at this', 'on the screen', 'right here', 'notice that', 'take a look',
+    ],
+    de: [
+        'wie ihr seht', 'wie Sie sehen', 'wie man sieht', 'ich zeige euch', 'ich zeig euch', 'schaut euch',
+        'schauen Sie', 'dieses Diagramm', 'hier seht ihr', 'hier sehen Sie', 'auf dem Bildschirm',
+        'dieses Beispiel', 'hier ist der Code', 'schaut mal', 'genau hier',
+    ],
+    es: [
+        'como puedes ver', 'como podéis ver', 'como pueden ver', 'te muestro', 'os muestro', 'les muestro',
+        'este diagrama', 'aquí está el código', 'este ejemplo', 'mira esto', 'miren esto', 'en la pantalla',
+        'justo aquí', 'fíjate', 'echa un vistazo',
+    ],
+    fr: [
+        'comme vous pouvez le voir', 'comme tu peux le voir', 'je vais vous montrer', 'ce diagramme', 'ce schéma',
+        'voici le code', 'cet exemple', 'regardez ça', "à l'écran", 'juste ici', 'remarquez que', 'jetez un œil',
+    ],
+    pt: [
+        'como você pode ver', 'como podem ver', 'vou mostrar', 'este diagrama', 'esse diagrama',
+        'aqui está o código', 'este exemplo', 'olha isso', 'olhem isso', 'na tela', 'bem aqui', 'repare que',
+        'dá uma olhada',
+    ],
+    it: [
+        'come potete vedere', 'come vedete', 'vi mostro', 'ti mostro', 'questo diagramma', 'ecco il codice',
+        'questo esempio', 'guardate qui', 'guarda questo', 'sullo schermo', 'proprio qui', 'notate che',
+        "diamo un'occhiata",
+    ],
+};
+
+/** Turn a cue phrase into a whole-word, case-insensitive pattern. */
+function phraseToPattern(phrase: string): RegExp {
+    const body = phrase
+        .trim()
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\s+/g, '\\s+')
+        .replace(/['’]/g, "['’]?");
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Build the cue patterns for a transcript language. Combines the built-in
+ * set for the base language (`de` for `de-AT`) with custom phrases given for
+ * the exact code, the base language, or `*` (all languages).
+ */
+export function buildCuePatterns(language: string, customPhrases: Record<string, string[]>): RegExp[] {
+    const base = language.split('-')[0].toLowerCase();
+    const phrases = [
+        ...(BUILT_IN_CUE_PHRASES[base] ?? []),
+        ...(customPhrases[language] ?? []),
+        ...(base !== language ? customPhrases[base] ?? [] : []),
+        ...(customPhrases['*'] ?? []),
+    ];
+    return [...new Set(phrases.filter((p) => p.trim()))].map(phraseToPattern);
+}
@@ -0,0 +1,217 @@
+import { log } from 'crawlee';
+import type { PlayerResponseSource } from './types.js';
+import { YOUTUBE_HEADERS, extractPlayerResponse, extractInitialData } from './utils.js';
+import { fetchWithRetry } from './http.js';
+import { extractInnertubeConfig, innertubeRequest } from './innertube.js';
+import { ScrapeError } from './status.js';
+import { getSessionId, hasUserCookies, rotateSession } from './session.js';
+
+/** New proxy sessions tried per watch page when YouTube blocks the current one */
+const MAX_SESSION_ROTATIONS = 3;
+
+/** A caption track listed in the player response */
+export interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    name?: { simpleText?: string; runs?: Array<{ text: string }> };
+    kind?: string;
+    isTranslatable?: boolean;
+}
+
+/** A thumbnail entry in the player response */
+export interface PlayerThumbnail {
+    url: string;
+    width?: number;
+    height?: number;
+}
+
+/** The parts of ytInitialPlayerResponse the extractors read */
+export interface PlayerResponse {
+    playabilityStatus?: {
+        status?: string;
+        reason?: string;
+        desktopLegacyAgeGateReason?: number;
+    };
+    videoDetails?: {
+        shortDescription?: string;
+        lengthSeconds?: string;
+        viewCount?: string;
+        title?: string;
+        author?: string;
+        channelId?: string;
+        keywords?: string[];
+        isLiveContent?: boolean;
+        isPrivate?: boolean;
+        thumbnail?: { thumbnails?: PlayerThumbnail[] };
+    };
+    microformat?: {
+        playerMicroformatRenderer?: {
+            publishDate?: string;
+            uploadDate?: string;
+            description?: { simpleText?: string };
+            category?: string;
+            isFamilySafe?: boolean;
+            isUnlisted?: boolean;
+            isShortsEligible?: boolean;
+            availableCountries?: string[];
+            thumbnail?: { thumbnails?: PlayerThumbnail[] };
+            liveBroadcastDetails?: {
+                isLiveNow?: boolean;
+                startTimestamp?: string;
+                endTimestamp?: string;
+            };
+        };
+    };
+    streamingData?: {
+        formats?: Array<{ width?: number; height?: number }>;
+        adaptiveFormats?: Array<{ width?: number; height?: number }>;
+    };
+    captions?: {
+        playerCaptionsTracklistRenderer?: {
+            captionTracks?: CaptionTrack[];
+            translationLanguages?: Array<{
+                languageCode: string;
+                languageName?: { simpleText?: string };
+            }>;
+        };
+    };
+    storyboards?: {
+        playerStoryboardSpecRenderer?: {
+            spec?: string;
+        };
+    };
+}
+
+/** A downloaded and parsed watch page, shared by all extractors */
+export interface WatchPage {
+    videoId: string;
+    html: string;
+    playerResponse: PlayerResponse | null;
+    /** Where `playerResponse` came from */
+    playerResponseSource: PlayerResponseSource | null;
+    initialData: Record<string, unknown> | null;
+}
+
+/**
+ * Parse watch page HTML into its embedded JSON blobs.
+ * Pure — use this directly with saved HTML fixtures.
+ */
+export function parseWatchPage(videoId: string, html: string): WatchPage {
+    const playerResponse = extractPlayerResponse(html) as PlayerResponse | null;
+    return {
+        videoId,
+        html,
+        playerResponse,
+        playerResponseSource: playerResponse ? 'watch_page' : null,
+        initialData: extractInitialData(html),
+    };
+}
+
+/**
+ * Fetch the player response from the youtubei/v1 `player` endpoint, with
+ * the API key and client context read from the page. Used when the page's
+ * ytInitialPlayerResponse cannot be extracted. Returns null on failure.
+ */
+async function fetchInnertubePlayer(videoId: string, html: string): Promise<PlayerResponse | null> {
+    const config = extractInnertubeConfig(html);
+    if (!config) {
+        log.warning('No ytInitialPlayerResponse and no InnerTube API key in the watch page');
+        return null;
+    }
+
+    log.info(`No ytInitialPlayerResponse in the watch page, falling back to the InnerTube player API for ${videoId}`);
+    try {
+        const player = await innertubeRequest<PlayerResponse>('player', config, {
+            videoId,
+            contentCheckOk: true,
+            racyCheckOk: true,
+        });
+        return player.videoDetails || player.playabilityStatus ? player : null;
+    } catch (err) {
+        log.warning(`InnerTube player request failed: ${(err as Error).message}`);
+        return null;
+    }
+}
+
+/** Whether YouTube served its cookie consent page (EU visitors) instead of the video. */
+function isConsentWall(finalUrl: string, html: string): boolean {
+    return finalUrl.includes('consent.youtube.com') || /action="https:\/\/consent\.youtube\.com\//.test(html);
+}
+
+/** Whether the video is behind the age gate (sign-in with a verified age required). */
+export function isAgeGated(player: PlayerResponse | null): boolean {
+    const playability = player?.playabilityStatus;
+    if (!playability) return false;
+    if (playability.status === 'AGE_CHECK_REQUIRED' || playability.status === 'AGE_VERIFICATION_REQUIRED') return true;
+    return playability.status === 'LOGIN_REQUIRED'
+        && (playability.desktopLegacyAgeGateReason !== undefined || /\bage\b/i.test(playability.reason ?? ''));
+}
+
+/** Whether YouTube asked to sign in to prove this is not a bot (the IP is flagged). */
+function isBotCheck(player: PlayerResponse | null): boolean {
+    const playability = player?.playabilityStatus;
+    return playability?.status === 'LOGIN_REQUIRED' && /not a bot/i.test(playability.reason ?? '');
+}
+
+/** Download and parse the watch page once, throwing a `ScrapeError` when YouTube blocks it. */
+async function loadWatchPage(videoId: string): Promise<WatchPage> {
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const res = await fetchWithRetry(watchUrl, { headers: YOUTUBE_HEADERS });
+    if (res.status === 429) {
+        throw new ScrapeError('RATE_LIMITED', 'Watch page returned status 429');
+    }
+    if (res.status === 403) {
+        throw new ScrapeError('BLOCKED', 'Watch page returned status 403');
+    }
+    if (!res.ok) {
+        throw new Error(`Watch page returned status ${res.status}`);
+    }
+
+    const page = parseWatchPage(videoId, await res.text());
+    if (!page.playerResponse && isConsentWall(res.url, page.html)) {
+        throw new ScrapeError('CONSENT_WALL', 'YouTube served the cookie consent page instead of the video');
+    }
+    if (!page.playerResponse) {
+        page.playerResponse = await fetchInnertubePlayer(videoId, page.html);
+        if (page.playerResponse) page.playerResponseSource = 'innertube_player';
+    }
+    if (isBotCheck(page.playerResponse)) {
+        throw new ScrapeError('BLOCKED', page.playerResponse?.playabilityStatus?.reason ?? 'YouTube asked to sign in');
+    }
+    return page;
+}
+
+/**
+ * Download `https://www.youtube.com/watch?v=...` once and parse it, taking
+ * the player response from the InnerTube API if the page has none. When
+ * YouTube blocks the request (consent wall, bot check, 403) and a proxy is
+ * configured, the page is fetched again on a new proxy session. Throws a
+ * `ScrapeError` if the page still cannot be fetched. A page without a
+ * player response is returned as-is; an age-gated page is returned too
+ * (its video details are still there) and logged.
+ */
+export async function fetchWatchPage(videoId: string): Promise<WatchPage> {
+    log.info(`Fetching watch page for video ${videoId}`);
+
+    let page: WatchPage;
+    for (let rotation = 0; ; rotation++) {
+        const sessionId = getSessionId();
+        try {
+            page = await loadWatchPage(videoId);
+            break;
+        } catch (err) {
+            // 429s already rotate the session inside fetchWithRetry
+            const blocked = err instanceof ScrapeError && err.code !== 'RATE_LIMITED';
+            if (!blocked || rotation >= MAX_SESSION_ROTATIONS || !(await rotateSession(err.message, sessionId))) throw err;
+        }
+    }
+
+    if (!page.playerResponse) {
+        log.warning('Could not get a player response from the page or the InnerTube API');
+    } else if (isAgeGated(page.playerResponse)) {
+        log.warning(hasUserCookies()
+            ? `Video ${videoId} is age-restricted and the input cookies did not unlock it`
+            : `Video ${videoId} is age-restricted; provide cookies of a signed-in, age-verified account to scrape it`);
+    }
+    return page;
+}
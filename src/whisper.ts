@@ -0,0 +1,146 @@
+import { log } from 'crawlee';
+import { access, mkdtemp, readFile, rm } from 'fs/promises';
+import { cpus, tmpdir } from 'os';
+import { basename, join } from 'path';
+import type { TranscriptResult, TranscriptSegment } from './types.js';
+import { formatTimestamp } from './transcript.js';
+import { runProcess } from './process.js';
+import { getFfmpegInputArgs, getYtDlpArgs } from './session.js';
+
+/** whisper.cpp CLI and ggml model; the Docker image sets both */
+const WHISPER_BIN = process.env.WHISPER_BIN ?? 'whisper-cli';
+const WHISPER_MODEL = process.env.WHISPER_MODEL ?? '/opt/whisper/ggml-base.bin';
+
+/** Timeout for resolving the audio stream */
+const RESOLVE_TIMEOUT_MS = 60000;
+
+/** Timeout for downloading and converting the audio */
+const AUDIO_TIMEOUT_MS = 15 * 60000;
+
+/** Transcription gets this many milliseconds per second of audio (CPU, small model), plus a minute */
+const TRANSCRIBE_MS_PER_SECOND = 2000;
+
+/** Shape of whisper.cpp's `-oj` JSON output */
+interface WhisperOutput {
+    result?: { language?: string };
+    transcription?: Array<{
+        offsets?: { from?: number; to?: number };
+        text?: string;
+    }>;
+}
+
+let whisperAvailable: Promise<boolean> | null = null;
+
+/** Check once per run whether yt-dlp, ffmpeg, whisper.cpp and its model are usable. */
+export function isWhisperAvailable(): Promise<boolean> {
+    if (!whisperAvailable) {
+        whisperAvailable = Promise.all([
+            runProcess('yt-dlp', ['--version'], 10000),
+            runProcess('ffmpeg', ['-version'], 10000),
+            runProcess(WHISPER_BIN, ['--help'], 10000),
+            access(WHISPER_MODEL),
+        ]).then(
+            () => true,
+            (err: Error) => {
+                log.warning(`Local transcription disabled (${err.message})`);
+                return false;
+            },
+        );
+    }
+    return whisperAvailable;
+}
+
+/** Part of the audio to transcribe, in seconds */
+export interface AudioWindow {
+    startSeconds: number;
+    endSeconds: number;
+}
+
+/** Download the best audio stream (or a window of it) as 16 kHz mono WAV (what whisper.cpp expects). */
+async function downloadAudio(videoId: string, outFile: string, window: AudioWindow): Promise<void> {
+    const { stdout } = await runProcess(
+        'yt-dlp',
+        [...getYtDlpArgs(), '-f', 'bestaudio', '--get-url', `https://www.youtube.com/watch?v=${videoId}`],
+        RESOLVE_TIMEOUT_MS,
+    );
+    const audioUrl = stdout.trim().split('\n')[0];
+    if (!audioUrl) throw new Error('yt-dlp returned no audio URL');
+
+    await runProcess(
+        'ffmpeg',
+        [
+            '-nostdin', '-loglevel', 'error', ...getFfmpegInputArgs(),
+            '-ss', String(window.startSeconds), '-t', String(window.endSeconds - window.startSeconds), '-i', audioUrl,
+            '-vn', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', '-y', outFile,
+        ],
+        AUDIO_TIMEOUT_MS,
+    );
+}
+
+/**
+ * Convert whisper.cpp segments (millisecond offsets) into transcript
+ * segments, shifted by `offsetMs` to video time.
+ */
+function toSegments(output: WhisperOutput, offsetMs: number): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    for (const item of output.transcription ?? []) {
+        const text = (item.text ?? '').replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+        const startMs = (item.offsets?.from ?? 0) + offsetMs;
+        const endMs = item.offsets?.to !== undefined ? item.offsets.to + offsetMs : startMs;
+        segments.push({
+            text,
+            startSeconds: Math.round(startMs / 10) / 100,
+            durationSeconds: Math.round(Math.max(0, endMs - startMs) / 10) / 100,
+            startFormatted: formatTimestamp(startMs / 1000),
+        });
+    }
+    return segments;
+}
+
+/**
+ * Transcribe a video (or the `window` of it) locally: download its audio
+ * with yt-dlp + ffmpeg and run whisper.cpp on the CPU with automatic
+ * language detection. Used when the video has no captions. Returns null
+ * when the tools are missing or transcription fails.
+ */
+export async function transcribeAudio(
+    videoId: string,
+    window: AudioWindow,
+    requestedLanguage: string,
+): Promise<TranscriptResult | null> {
+    if (!(await isWhisperAvailable())) return null;
+
+    log.info(`Transcribing audio of ${videoId} locally with whisper.cpp (${basename(WHISPER_MODEL)})`);
+    const dir = await mkdtemp(join(tmpdir(), `audio-${videoId}-`));
+    try {
+        const audioFile = join(dir, 'audio.wav');
+        await downloadAudio(videoId, audioFile, window);
+
+        const outPrefix = join(dir, 'transcript');
+        await runProcess(
+            WHISPER_BIN,
+            ['-m', WHISPER_MODEL, '-f', audioFile, '-l', 'auto', '-t', String(Math.max(1, cpus().length)), '-oj', '-of', outPrefix, '-np'],
+            60000 + (window.endSeconds - window.startSeconds) * TRANSCRIBE_MS_PER_SECOND,
+        );
+
+        const output = JSON.parse(await readFile(`${outPrefix}.json`, 'utf-8')) as WhisperOutput;
+        const segments = toSegments(output, window.startSeconds * 1000);
+        log.info(`whisper.cpp produced ${segments.length} segments for ${videoId}`);
+
+        return {
+            requestedLanguage,
+            languageCode: output.result?.language ?? 'und',
+            trackName: `whisper.cpp (${basename(WHISPER_MODEL, '.bin')})`,
+            isAutoGenerated: true,
+            isTranslated: false,
+            origin: 'local_asr',
+            segments,
+        };
+    } catch (err) {
+        log.warning(`Local transcription failed for ${videoId}: ${(err as Error).message}`);
+        return null;
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findNearestTile, getTile, parseStoryboardSpec, selectStoryboardLevel } from '../src/storyboard.js';
+
+/** 3:33 video: a `default` level 0 plus two `M$M` levels with 2s tiles */
+const SHORT_SPEC = 'https://i.ytimg.com/sb/dQw4w9WgXcQ/storyboard3_L$L/$N.jpg?sqp=-oaymwENSDfyq4qpAwVwAcABBqLzl_8DBgjv6fWkBg==|'
+    + '48#27#100#10#10#0#default#rs$AOn4CLAhdXTfJ2B9qu8eOAfmf0Yqn5aHVw|'
+    + '80#45#107#10#10#2000#M$M#rs$AOn4CLDOsnEWdKWi4yLq4T6M3oM4T9pQ0A|'
+    + '160#90#107#5#5#2000#M$M#rs$AOn4CLBXUM1AvVhkLf0JZdtOE6PXCyGbUw';
+
+/** 1:32:00 video: 10s tiles spread over many sheets, plus a 320x180 level */
+const LONG_SPEC = 'https://i.ytimg.com/sb/aircAruvnKk/storyboard3_L$L/$N.jpg?sqp=-oaymwGbA0g48quKqQOSA4gBAZUBAAAEQpgBMqABPKgBBLABELABDbABDLABELABFbABH7ABJrABLbABD7ABErABFLABFbABHbAB5qAB|'
+    + '48#27#100#10#10#0#default#rs$AOn4CLAGQK3o4fQ1cFyZ6G6OqmP2xB9ZRw|'
+    + '80#45#552#10#10#10000#M$M#rs$AOn4CLDh9Fv0rFq2J7hQe3kz7mYk8VMZbQ|'
+    + '160#90#552#5#5#10000#M$M#rs$AOn4CLBvH4zCwE5tL4s1bW8Zr7Xh6Jq9jBg|'
+    + '320#180#552#3#3#10000#M$M#rs$AOn4CLCQ2yVj3UqJYb5sWJ1y8eLr3mY4kZw';
+
+/** Archived 3h live stream: no `sqp` query, the signature is the only parameter */
+const LIVE_ARCHIVE_SPEC = 'https://i.ytimg.com/sb/jfKfPfyJRdk/storyboard3_L$L/$N.jpg|'
+    + '48#27#100#10#10#0#default#rs$AOn4CLB3Qmz4nVqLx8kQ2sTqXa1qZlWf7A|'
+    + '80#45#1081#10#10#10000#M$M#rs$AOn4CLDn0bX7q2yq5lXcR3Jm8xXKcWJ0pQ|'
+    + '160#90#1081#5#5#10000#M$M#rs$AOn4CLAmXhI4b7vX0b1mQ7ZJX3kG2h8r4A';
+
+describe('parseStoryboardSpec', () => {
+    it('parses every level of a short video', () => {
+        const levels = parseStoryboardSpec(SHORT_SPEC, 213);
+        assert.equal(levels.length, 3);
+        assert.deepEqual(levels.map((l) => [l.index, l.width, l.height, l.intervalMs]), [
+            [0, 48, 27, 2130],
+            [1, 80, 45, 2000],
+            [2, 160, 90, 2000],
+        ]);
+        assert.equal(levels[2].tilesPerSheet, 25);
+        assert.equal(levels[2].sheetCount, 5);
+        assert.equal(levels[1].name, 'M$M');
+        assert.equal(levels[0].name, 'default');
+        assert.equal(levels[2].sigh, 'rs$AOn4CLBXUM1AvVhkLf0JZdtOE6PXCyGbUw');
+        assert.ok(levels[2].urlTemplate.includes('/storyboard3_L2/$N.jpg'));
+    });
+
+    it('parses a video longer than an hour', () => {
+        const levels = parseStoryboardSpec(LONG_SPEC, 5520);
+        assert.equal(levels.length, 4);
+        const largest = levels[3];
+        assert.deepEqual([largest.width, largest.height, largest.cols, largest.rows], [320, 180, 3, 3]);
+        assert.equal(largest.intervalMs, 10000);
+        assert.equal(largest.sheetCount, Math.ceil(552 / 9));
+        assert.equal(levels[0].intervalMs, 55200);
+    });
+
+    it('parses an archived live stream', () => {
+        const levels = parseStoryboardSpec(LIVE_ARCHIVE_SPEC, 10810);
+        assert.equal(levels.length, 3);
+        assert.equal(levels[1].count, 1081);
+        assert.equal(levels[2].sheetCount, 44);
+    });
+
+    it('drops a level 0 with interval 0 when the duration is unknown', () => {
+        const levels = parseStoryboardSpec(SHORT_SPEC);
+        assert.deepEqual(levels.map((l) => l.index), [1, 2]);
+    });
+
+    it('returns no levels for specs without a base URL', () => {
+        assert.deepEqual(parseStoryboardSpec(''), []);
+        assert.deepEqual(parseStoryboardSpec('48#27#100#10#10#0#default#rs$x'), []);
+    });
+});
+
+describe('getTile', () => {
+    it('substitutes the sheet index into M$M and appends the signature', () => {
+        const level = parseStoryboardSpec(SHORT_SPEC, 213)[2];
+        const tile = getTile(level, 27);
+        assert.equal(
+            tile.url,
+            'https://i.ytimg.com/sb/dQw4w9WgXcQ/storyboard3_L2/M1.jpg?sqp=-oaymwENSDfyq4qpAwVwAcABBqLzl_8DBgjv6fWkBg=='
+                + '&sigh=rs$AOn4CLBXUM1AvVhkLf0JZdtOE6PXCyGbUw',
+        );
+        // Tile 27 is the third tile of the second 5x5 sheet
+        assert.deepEqual(tile.tileRect, { x: 320, y: 0, w: 160, h: 90 });
+        assert.equal(tile.timestampMs, 54000);
+        assert.equal(tile.level, 2);
+    });
+
+    it('uses the default sheet for level 0', () => {
+        const level = parseStoryboardSpec(SHORT_SPEC, 213)[0];
+        const tile = getTile(level, 99);
+        assert.ok(tile.url.includes('/storyboard3_L0/default.jpg?'));
+        assert.deepEqual(tile.tileRect, { x: 432, y: 243, w: 48, h: 27 });
+    });
+
+    it('starts the query string when the base URL has none', () => {
+        const level = parseStoryboardSpec(LIVE_ARCHIVE_SPEC, 10810)[1];
+        const tile = getTile(level, 1080);
+        assert.equal(tile.url, 'https://i.ytimg.com/sb/jfKfPfyJRdk/storyboard3_L1/M10.jpg?sigh=rs$AOn4CLDn0bX7q2yq5lXcR3Jm8xXKcWJ0pQ');
+        assert.equal(tile.timestampMs, 10_800_000);
+    });
+
+    it('finds tiles on late sheets of a long video', () => {
+        const level = parseStoryboardSpec(LONG_SPEC, 5520)[3];
+        const tile = getTile(level, 400);
+        // 400 = sheet 44 * 9 + 4, i.e. row 1, column 1 of a 3x3 sheet
+        assert.ok(tile.url.includes('/storyboard3_L3/M44.jpg?'));
+        assert.deepEqual(tile.tileRect, { x: 320, y: 180, w: 320, h: 180 });
+    });
+});
+
+describe('selectStoryboardLevel', () => {
+    const levels = parseStoryboardSpec(LONG_SPEC, 5520);
+
+    it('picks the smallest level at least as wide as the target', () => {
+        assert.equal(selectStoryboardLevel(levels, 'resolution', 100)?.width, 160);
+        assert.equal(selectStoryboardLevel(levels, 'resolution', 160)?.width, 160);
+    });
+
+    it('picks the widest level without a target or when none is wide enough', () => {
+        assert.equal(selectStoryboardLevel(levels, 'resolution')?.width, 320);
+        assert.equal(selectStoryboardLevel(levels, 'resolution', 1280)?.width, 320);
+    });
+
+    it('picks the shortest interval, wider on ties, for precision', () => {
+        const level = selectStoryboardLevel(levels, 'precision');
+        assert.equal(level?.intervalMs, 10000);
+        assert.equal(level?.width, 320);
+    });
+
+    it('returns null without levels', () => {
+        assert.equal(selectStoryboardLevel([], 'resolution'), null);
+    });
+});
+
+describe('findNearestTile', () => {
+    it('samples the nearest tile of the selected level', () => {
+        const levels = parseStoryboardSpec(SHORT_SPEC, 213);
+        const tile = findNearestTile(levels, 61.2, 'resolution');
+        assert.equal(tile?.level, 2);
+        assert.equal(tile?.timestampMs, 62000);
+    });
+
+    it('clamps timestamps past the last tile', () => {
+        const levels = parseStoryboardSpec(SHORT_SPEC, 213);
+        const tile = findNearestTile(levels, 500, 'resolution');
+        assert.equal(tile?.timestampMs, 106 * 2000);
+    });
+
+    it('checks every level for the closest tile in precision mode', () => {
+        const levels = parseStoryboardSpec(SHORT_SPEC, 213);
+        // Level 0 has a tile at 4.26s; the 2s levels only reach 4s
+        const tile = findNearestTile(levels, 4.26, 'precision');
+        assert.equal(tile?.level, 0);
+        assert.equal(tile?.timestampMs, 4260);
+    });
+
+    it('prefers the wider level when tiles are equally close', () => {
+        const levels = parseStoryboardSpec(LIVE_ARCHIVE_SPEC, 10810);
+        const tile = findNearestTile(levels, 3600, 'precision');
+        assert.equal(tile?.level, 2);
+        assert.equal(tile?.timestampMs, 3_600_000);
+    });
+
+    it('returns null without levels', () => {
+        assert.equal(findNearestTile([], 10, 'resolution'), null);
+    });
+});
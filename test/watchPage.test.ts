@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { parseWatchPage } from '../src/watchPage.js';
+import { extractMetadata } from '../src/metadata.js';
+import { describeCaptionTracks, getCaptionTracks, selectCaptionTrack } from '../src/transcript.js';
+
+/** A saved watch page, trimmed to the scripts the extractors read */
+const html = readFileSync(new URL('./fixtures/watch-page.html', import.meta.url), 'utf-8');
+const page = parseWatchPage('fixture0001', html);
+
+describe('parseWatchPage', () => {
+    it('extracts the player response and initial data', () => {
+        assert.equal(page.playerResponseSource, 'watch_page');
+        assert.equal(page.playerResponse?.videoDetails?.title, 'Building a REST API in 10 minutes');
+        assert.ok(page.initialData?.contents);
+    });
+
+    it('keeps strings with "};" inside intact', () => {
+        assert.ok(page.playerResponse?.videoDetails?.shortDescription?.endsWith('has }; in it to test brace matching.'));
+    });
+
+    it('returns nulls for a page without the embedded JSON', () => {
+        const empty = parseWatchPage('fixture0001', '<html><body>Sorry, something went wrong.</body></html>');
+        assert.equal(empty.playerResponse, null);
+        assert.equal(empty.playerResponseSource, null);
+        assert.equal(empty.initialData, null);
+    });
+});
+
+describe('extractMetadata', () => {
+    const metadata = extractMetadata('fixture0001', page);
+
+    it('reads video details and the microformat', () => {
+        assert.equal(metadata.channelName, 'Example Dev');
+        assert.equal(metadata.channelUrl, 'https://www.youtube.com/channel/UCfixtureChannel000000000');
+        assert.equal(metadata.durationSeconds, 642);
+        assert.equal(metadata.duration, '10:42');
+        assert.equal(metadata.viewCount, 123456);
+        assert.equal(metadata.category, 'Science & Technology');
+        assert.equal(metadata.publishedDate, '2024-03-01T08:00:12-08:00');
+        assert.deepEqual(metadata.keywords, ['api', 'node']);
+        assert.deepEqual(metadata.availableCountries, ['DE', 'US']);
+        assert.equal(metadata.isShort, false);
+        assert.equal(metadata.thumbnails.length, 2);
+        assert.ok(metadata.storyboardSpec?.startsWith('https://i.ytimg.com/sb/fixture0001/'));
+    });
+
+    it('reads engagement counts from the initial data', () => {
+        assert.equal(metadata.likeCount, 4512);
+        assert.equal(metadata.commentCount, 87);
+        assert.equal(metadata.channelSubscriberCount, 12300);
+    });
+
+    it('builds chapters and links from the description', () => {
+        assert.deepEqual(
+            metadata.chapters.map((ch) => [ch.title, ch.startSeconds, ch.endSeconds]),
+            [['Intro', 0, 90], ['Project setup', 90, 245], ['Routes', 245, 520], ['Wrap-up', 520, 642]],
+        );
+        assert.ok(metadata.links.some((link) => link.url === 'https://github.com/example/rest-api'));
+    });
+
+    it('falls back to placeholders without a page', () => {
+        const empty = extractMetadata('fixture0001', null);
+        assert.equal(empty.title, 'Unknown');
+        assert.equal(empty.durationSeconds, 0);
+        assert.deepEqual(empty.chapters, []);
+    });
+});
+
+describe('caption tracks', () => {
+    const player = page.playerResponse;
+
+    it('lists the tracks with their names', () => {
+        assert.deepEqual(describeCaptionTracks(getCaptionTracks(player)), [
+            { languageCode: 'en', name: 'English', isAutoGenerated: false, isTranslatable: true },
+            { languageCode: 'de', name: 'German (auto-generated)', isAutoGenerated: true, isTranslatable: true },
+        ]);
+    });
+
+    it('prefers manual tracks and falls back to auto-generated ones', () => {
+        assert.equal(selectCaptionTrack(player, 'en', false, false)?.track.name?.simpleText, 'English');
+        assert.equal(selectCaptionTrack(player, 'de', false, false)?.track.kind, 'asr');
+    });
+
+    it('translates from the manual track when allowed', () => {
+        const selection = selectCaptionTrack(player, 'fr', true, false);
+        assert.equal(selection?.track.languageCode, 'en');
+        assert.equal(selection?.translateTo, 'fr');
+        assert.equal(selectCaptionTrack(player, 'fr', false, false), null);
+    });
+});